@@ -1,11 +1,26 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { ProcessingState, Settings } from './types';
-import { processAudioFile } from './services/audioProcessor';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { CalibrationResult, FrameLevels, OutputOptions, ProcessingState, ProgressUpdate, Settings, SpeechChunk, SubtitleCue, SubtitleTimingMode } from './types';
+import { calculatePhraseTimings, calibrateSettings, decodeAudio, denoiseOptionsFor, detectSpeechChunks, exportPhraseClips, getFrameLevels, isAbortError, measureNoiseReducedLevels, renderPacedAudio } from './services/audioProcessor';
 import FileUpload from './components/FileUpload';
 import SettingsPanel from './components/SettingsPanel';
 import AudioPlayer from './components/AudioPlayer';
 import { DownloadIcon, RefreshCwIcon, UploadCloudIcon } from './components/icons';
 import Merger from './components/Merger';
+import ChunkEditor from './components/ChunkEditor';
+import PracticePlayer from './components/PracticePlayer';
+import DetectionPreview from './components/DetectionPreview';
+import ProgressBar from './components/ProgressBar';
+import OutputFormatPicker from './components/OutputFormatPicker';
+import TimingExport from './components/TimingExport';
+import SubtitleImport from './components/SubtitleImport';
+import PhraseClipExport from './components/PhraseClipExport';
+import BatchPacer from './components/BatchPacer';
+import BilingualPacer from './components/BilingualPacer';
+import { isSupportedAudioFile } from './services/audioFiles';
+import { loadStoredSettings, storeSettings } from './services/presets';
+import { downloadBlob } from './services/download';
+import { chunksFromCues, cueTextForChunks } from './services/subtitles';
+import { DEFAULT_OUTPUT_OPTIONS, fileExtensionFor } from './services/outputFormats';
 
 const TabButton: React.FC<{ title: string; active: boolean; onClick: () => void }> = ({ title, active, onClick }) => (
     <button
@@ -23,70 +38,298 @@ const TabButton: React.FC<{ title: string; active: boolean; onClick: () => void
 
 
 const App: React.FC = () => {
-    const [mode, setMode] = useState<'pacer' | 'merger'>('pacer');
+    const [mode, setMode] = useState<'pacer' | 'bilingual' | 'merger'>('pacer');
     const [file, setFile] = useState<File | null>(null);
+    // Set when several files were dropped at once; they are paced as a batch
+    const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
     const [processingState, setProcessingState] = useState<ProcessingState>(ProcessingState.IDLE);
-    const [progressMessage, setProgressMessage] = useState<string>('');
+    const [progress, setProgress] = useState<ProgressUpdate | null>(null);
     const [originalAudioUrl, setOriginalAudioUrl] = useState<string | null>(null);
     const [processedAudioUrl, setProcessedAudioUrl] = useState<string | null>(null);
     const [processedFileName, setProcessedFileName] = useState<string>('');
     const [error, setError] = useState<string | null>(null);
-    const [settings, setSettings] = useState<Settings>({
-        silenceThreshold: 0.07,
-        minSilenceDuration: 0.7,
-        pauseMultiplier: 1.5,
-    });
+    // Restored from the last visit, or the defaults
+    const [settings, setSettings] = useState<Settings>(loadStoredSettings);
+    const [outputOptions, setOutputOptions] = useState<OutputOptions>(DEFAULT_OUTPUT_OPTIONS);
+    const [clipPaddingMs, setClipPaddingMs] = useState(250);
+    const [ankiDeck, setAnkiDeck] = useState(false);
+    // Transcript lines paired with the phrases in order, for phrase files and flashcards
+    const [transcriptLines, setTranscriptLines] = useState<string[] | null>(null);
+    const [transcriptFileName, setTranscriptFileName] = useState('');
+    const [calibration, setCalibration] = useState<CalibrationResult | null>(null);
+    const [isCalibrating, setIsCalibrating] = useState(false);
+    // Decoded once after upload and reused for preview, calibration, detection and rendering
+    const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+    // Levels speech is detected in: of the decoded audio, or of the audio with its noise reduced
+    const [analysisLevels, setAnalysisLevels] = useState<FrameLevels | null>(null);
+    // Detected phrases under review; null until detection has run
+    const [chunks, setChunks] = useState<SpeechChunk[] | null>(null);
+    // Detection result for the current settings, refreshed while sliders move
+    const [previewChunks, setPreviewChunks] = useState<SpeechChunk[] | null>(null);
+    const [isPreviewUpdating, setIsPreviewUpdating] = useState(false);
+    // Optional subtitles whose cues replace silence detection
+    const [subtitleCues, setSubtitleCues] = useState<SubtitleCue[] | null>(null);
+    const [subtitleFileName, setSubtitleFileName] = useState('');
+    const [subtitleTimingMode, setSubtitleTimingMode] = useState<SubtitleTimingMode>(SubtitleTimingMode.REFINE);
+    const abortController = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        storeSettings(settings);
+    }, [settings]);
+
+    useEffect(() => {
+        if (!file) return;
+        let cancelled = false;
+        decodeAudio(file)
+            .then(buffer => {
+                if (!cancelled) setAudioBuffer(buffer);
+            })
+            .catch(err => {
+                console.error(err);
+                if (cancelled) return;
+                setError('Could not decode the audio file. It may be corrupted or in an unsupported format.');
+                setProcessingState(ProcessingState.ERROR);
+            });
+        return () => { cancelled = true; };
+    }, [file]);
+
+    useEffect(() => {
+        setAnalysisLevels(null);
+        if (!audioBuffer) return;
+        const options = denoiseOptionsFor(settings, 'detection');
+        if (!options) {
+            setAnalysisLevels(getFrameLevels(audioBuffer));
+            return;
+        }
+        const controller = new AbortController();
+        // Debounced too, as every change reprocesses the whole file
+        const timeout = setTimeout(() => {
+            measureNoiseReducedLevels(audioBuffer, options, () => {}, controller.signal)
+                .then(setAnalysisLevels)
+                .catch(err => {
+                    if (isAbortError(err)) return;
+                    console.error(err);
+                    setError('Could not reduce the background noise, so speech is detected in the original audio.');
+                    setAnalysisLevels(getFrameLevels(audioBuffer));
+                });
+        }, 250);
+        return () => {
+            clearTimeout(timeout);
+            controller.abort();
+        };
+    }, [audioBuffer, settings.noiseReduction]);
+
+    // Phrases for the given settings, taken from the subtitles when they were loaded
+    const findChunks = useCallback((levels: FrameLevels, currentSettings: Settings) => (
+        subtitleCues
+            ? chunksFromCues(subtitleCues, subtitleTimingMode, levels, currentSettings)
+            : detectSpeechChunks(levels, currentSettings)
+    ), [subtitleCues, subtitleTimingMode]);
+
+    useEffect(() => {
+        if (!analysisLevels) return;
+        setIsPreviewUpdating(true);
+        // Debounced so dragging a slider doesn't re-run detection on every step
+        const timeout = setTimeout(() => {
+            setPreviewChunks(findChunks(analysisLevels, settings));
+            setIsPreviewUpdating(false);
+        }, 250);
+        return () => clearTimeout(timeout);
+    }, [analysisLevels, settings, findChunks]);
 
     const handleFileSelect = useCallback((selectedFiles: File[]) => {
         if (!selectedFiles || selectedFiles.length === 0) return;
-        const selectedFile = selectedFiles[0];
+        const validFiles = selectedFiles.filter(isSupportedAudioFile);
 
-        if (selectedFile.type !== 'audio/mpeg' && selectedFile.type !== 'audio/wav' && selectedFile.type !== 'audio/x-wav') {
+        if (validFiles.length === 0) {
             setError('Invalid file type. Please upload an MP3 or WAV file.');
             return;
         }
+        if (validFiles.length > 1) {
+            setError(validFiles.length < selectedFiles.length ? 'Some files were skipped because they are not MP3 or WAV files.' : null);
+            setBatchFiles(validFiles);
+            setProcessingState(ProcessingState.READY);
+            return;
+        }
+        const selectedFile = validFiles[0];
         setError(null);
+        setCalibration(null);
+        setAudioBuffer(null);
+        setChunks(null);
+        setPreviewChunks(null);
         setFile(selectedFile);
         setOriginalAudioUrl(URL.createObjectURL(selectedFile));
         setProcessingState(ProcessingState.READY);
     }, []);
 
-    const handleProcessAudio = useCallback(async () => {
-        if (!file) return;
+    const handleAutoCalibrate = useCallback(async () => {
+        if (!analysisLevels) return;
+
+        setIsCalibrating(true);
+        setError(null);
+
+        try {
+            await new Promise(resolve => setTimeout(resolve, 50)); // Short delay for UI update
+            const result = calibrateSettings(analysisLevels, settings);
+            setCalibration(result);
+            setSettings(prev => ({
+                ...prev,
+                silenceThreshold: result.silenceThreshold,
+                minSilenceDuration: result.minSilenceDuration,
+            }));
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'Could not analyze the audio file.');
+        } finally {
+            setIsCalibrating(false);
+        }
+    }, [analysisLevels, settings]);
+
+    const handleDetectPhrases = useCallback(async () => {
+        if (!analysisLevels) return;
+
+        setProcessingState(ProcessingState.PROCESSING);
+        setError(null);
+
+        try {
+            setProgress({ step: 1, totalSteps: 1, message: 'Analyzing for speech...', percent: 0 });
+            await new Promise(resolve => setTimeout(resolve, 50)); // Short delay for UI update
+            const detectedChunks = findChunks(analysisLevels, settings);
+
+            if (detectedChunks.length === 0) {
+                throw new Error(subtitleCues
+                    ? 'None of the subtitle cues fall within the audio. Check that the subtitles belong to this file.'
+                    : "Could not detect any speech. Please try adjusting the 'Silence Threshold' slider to be lower.");
+            }
+
+            setChunks(detectedChunks);
+            setProcessingState(ProcessingState.REVIEW);
+            setProgress(null);
+        } catch (err) {
+            console.error(err);
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during analysis.';
+            setError(errorMessage);
+            setProcessingState(ProcessingState.ERROR);
+            setProgress(null);
+        }
+    }, [analysisLevels, settings, findChunks, subtitleCues]);
+
+    const handleRenderAudio = useCallback(async () => {
+        if (!file || !audioBuffer || !chunks) return;
 
         setProcessingState(ProcessingState.PROCESSING);
         setError(null);
         setProcessedAudioUrl(null);
 
+        const controller = new AbortController();
+        abortController.current = controller;
+
         try {
-            const processedBlob = await processAudioFile(file, settings, setProgressMessage);
+            const processedBlob = await renderPacedAudio(audioBuffer, chunks, settings, outputOptions, setProgress, controller.signal);
             const url = URL.createObjectURL(processedBlob);
             setProcessedAudioUrl(url);
 
             const originalName = file.name.split('.').slice(0, -1).join('.');
-            setProcessedFileName(`${originalName}_paced.mp3`);
+            setProcessedFileName(`${originalName}_paced.${fileExtensionFor(outputOptions.format)}`);
 
             setProcessingState(ProcessingState.DONE);
-            setProgressMessage('Processing complete!');
+            setProgress(null);
         } catch (err) {
+            setProgress(null);
+            if (isAbortError(err)) {
+                // Cancelled by the user: go back to the review step with the edits intact,
+                // unless the whole file was reset in the meantime
+                if (abortController.current === controller) {
+                    setProcessingState(ProcessingState.REVIEW);
+                }
+                return;
+            }
             console.error(err);
             const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during processing.';
             setError(errorMessage);
             setProcessingState(ProcessingState.ERROR);
-            setProgressMessage('');
+        } finally {
+            if (abortController.current === controller) {
+                abortController.current = null;
+            }
         }
-    }, [file, settings]);
+    }, [file, audioBuffer, chunks, settings, outputOptions]);
+
+    const handleExportClips = useCallback(async () => {
+        if (!file || !audioBuffer || !chunks) return;
+
+        setProcessingState(ProcessingState.PROCESSING);
+        setError(null);
+
+        const controller = new AbortController();
+        abortController.current = controller;
+
+        try {
+            const baseName = file.name.split('.').slice(0, -1).join('.') || 'phrase';
+            const texts = transcriptLines
+                ? chunks.map((_, index) => transcriptLines[index] ?? '')
+                : subtitleCues ? cueTextForChunks(chunks, subtitleCues, audioBuffer.sampleRate) : null;
+            const zipBlob = await exportPhraseClips(
+                audioBuffer,
+                chunks,
+                settings,
+                outputOptions,
+                { paddingMs: clipPaddingMs, baseName, texts, ankiDeck },
+                setProgress,
+                controller.signal
+            );
+            downloadBlob(zipBlob, `${baseName}_phrases.zip`);
+            // The download is the result, so stay in review for further exports
+            setProcessingState(ProcessingState.REVIEW);
+            setProgress(null);
+        } catch (err) {
+            setProgress(null);
+            if (isAbortError(err)) {
+                if (abortController.current === controller) {
+                    setProcessingState(ProcessingState.REVIEW);
+                }
+                return;
+            }
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'An unknown error occurred while exporting phrases.');
+            setProcessingState(ProcessingState.ERROR);
+        } finally {
+            if (abortController.current === controller) {
+                abortController.current = null;
+            }
+        }
+    }, [file, audioBuffer, chunks, settings, outputOptions, clipPaddingMs, ankiDeck, transcriptLines, subtitleCues]);
+
+    const handleCancel = () => {
+        abortController.current?.abort();
+    };
+
+    const handleBackToSettings = () => {
+        setChunks(null);
+        setProcessingState(ProcessingState.READY);
+    };
 
     const handleReset = () => {
+        abortController.current?.abort();
+        abortController.current = null;
         setFile(null);
+        setBatchFiles(null);
         setProcessingState(ProcessingState.IDLE);
         setError(null);
-        setProgressMessage('');
+        setProgress(null);
         if (originalAudioUrl) URL.revokeObjectURL(originalAudioUrl);
         if (processedAudioUrl) URL.revokeObjectURL(processedAudioUrl);
         setOriginalAudioUrl(null);
         setProcessedAudioUrl(null);
         setProcessedFileName('');
+        setCalibration(null);
+        setAudioBuffer(null);
+        setChunks(null);
+        setPreviewChunks(null);
+        setSubtitleCues(null);
+        setSubtitleFileName('');
+        setTranscriptLines(null);
+        setTranscriptFileName('');
     };
 
     const isProcessing = useMemo(() => processingState === ProcessingState.PROCESSING, [processingState]);
@@ -98,7 +341,7 @@ const App: React.FC = () => {
         setError(null);
     }
 
-    const handleModeChange = (newMode: 'pacer' | 'merger') => {
+    const handleModeChange = (newMode: 'pacer' | 'bilingual' | 'merger') => {
         resetPacerStateForModeSwitch();
         setMode(newMode);
     };
@@ -110,12 +353,13 @@ const App: React.FC = () => {
                     <h1 className="text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-teal-300">
                         Audio Toolkit
                     </h1>
-                    <p className="mt-2 text-gray-400">Pace or merge your language learning audio files.</p>
+                    <p className="mt-2 text-gray-400">Pace, interleave or merge your language learning audio files.</p>
                 </header>
                 
                 <main className="bg-gray-800/50 p-6 rounded-xl shadow-2xl border border-gray-700/50">
                      <div className="flex mb-6 border-b border-gray-700">
                         <TabButton title="Pacer" active={mode === 'pacer'} onClick={() => handleModeChange('pacer')} />
+                        <TabButton title="Bilingual" active={mode === 'bilingual'} onClick={() => handleModeChange('bilingual')} />
                         <TabButton title="Merger" active={mode === 'merger'} onClick={() => handleModeChange('merger')} />
                     </div>
 
@@ -129,19 +373,100 @@ const App: React.FC = () => {
                     {mode === 'pacer' && (
                         <>
                            {processingState === ProcessingState.IDLE && (
-                                <FileUpload onFileSelect={handleFileSelect} multiple={false} />
+                                <FileUpload onFileSelect={handleFileSelect} multiple={true} />
+                            )}
+
+                            {batchFiles && (
+                                <BatchPacer
+                                    initialFiles={batchFiles}
+                                    settings={settings}
+                                    onSettingsChange={setSettings}
+                                    outputOptions={outputOptions}
+                                    onOutputOptionsChange={setOutputOptions}
+                                    onExit={handleReset}
+                                />
                             )}
 
-                            {(processingState === ProcessingState.READY || isProcessing) && file && (
+                            {(processingState === ProcessingState.READY || (isProcessing && !chunks)) && file && (
                                 <div className="space-y-6">
                                     <div className="text-center">
                                         <p className="text-lg font-semibold text-teal-300">{file.name}</p>
                                         <p className="text-sm text-gray-400">({(file.size / 1024 / 1024).toFixed(2)} MB)</p>
                                     </div>
-                                    <SettingsPanel settings={settings} onSettingsChange={setSettings} disabled={isProcessing} />
+                                    <SettingsPanel
+                                        settings={settings}
+                                        onSettingsChange={setSettings}
+                                        disabled={isProcessing}
+                                        onAutoCalibrate={analysisLevels ? handleAutoCalibrate : undefined}
+                                        isCalibrating={isCalibrating}
+                                        calibration={calibration}
+                                    />
+                                    <SubtitleImport
+                                        cues={subtitleCues}
+                                        fileName={subtitleFileName}
+                                        timingMode={subtitleTimingMode}
+                                        onCuesChange={(cues, name) => {
+                                            setSubtitleCues(cues);
+                                            setSubtitleFileName(name);
+                                        }}
+                                        onTimingModeChange={setSubtitleTimingMode}
+                                        disabled={isProcessing}
+                                    />
+                                    {audioBuffer && analysisLevels ? (
+                                        <DetectionPreview
+                                            chunks={previewChunks}
+                                            settings={settings}
+                                            audioBuffer={audioBuffer}
+                                            isUpdating={isPreviewUpdating}
+                                        />
+                                    ) : (
+                                        <p className="text-center text-sm text-gray-400 animate-pulse">
+                                            {audioBuffer ? 'Reducing background noise...' : 'Decoding audio...'}
+                                        </p>
+                                    )}
                                     <div className="flex justify-center">
                                         <button
-                                            onClick={handleProcessAudio}
+                                            onClick={handleDetectPhrases}
+                                            disabled={isProcessing || !analysisLevels}
+                                            className="w-full flex items-center justify-center gap-3 px-8 py-4 bg-teal-600 text-white font-bold rounded-lg hover:bg-teal-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-all duration-300 shadow-lg hover:shadow-teal-500/30"
+                                        >
+                                            {isProcessing ? (
+                                                <>
+                                                    <RefreshCwIcon className="animate-spin h-5 w-5" />
+                                                    <span>Analyzing...</span>
+                                                </>
+                                            ) : (
+                                                'Detect Phrases'
+                                            )}
+                                        </button>
+                                    </div>
+                                    {isProcessing && <ProgressBar progress={progress} />}
+                                </div>
+                            )}
+
+                            {(processingState === ProcessingState.REVIEW || isProcessing) && file && audioBuffer && chunks && (
+                                <div className="space-y-6">
+                                    <div className="text-center">
+                                        <h2 className="text-xl font-semibold text-teal-300">Review Phrases</h2>
+                                        <p className="text-sm text-gray-400">Adjust, split, merge or delete phrases before rendering.</p>
+                                    </div>
+                                    <ChunkEditor audioBuffer={audioBuffer} chunks={chunks} onChunksChange={setChunks} disabled={isProcessing} />
+                                    <PracticePlayer
+                                        audioBuffer={audioBuffer}
+                                        chunks={chunks}
+                                        phraseTexts={subtitleCues ? cueTextForChunks(chunks, subtitleCues, audioBuffer.sampleRate) : transcriptLines ?? undefined}
+                                    />
+                                    <OutputFormatPicker options={outputOptions} onChange={setOutputOptions} disabled={isProcessing} />
+                                    <div className="flex flex-col sm:flex-row gap-4">
+                                        <button
+                                            onClick={handleBackToSettings}
+                                            disabled={isProcessing}
+                                            className="w-full sm:w-1/3 px-6 py-4 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-300"
+                                        >
+                                            Back to Settings
+                                        </button>
+                                        <button
+                                            onClick={handleRenderAudio}
                                             disabled={isProcessing}
                                             className="w-full flex items-center justify-center gap-3 px-8 py-4 bg-teal-600 text-white font-bold rounded-lg hover:bg-teal-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-all duration-300 shadow-lg hover:shadow-teal-500/30"
                                         >
@@ -151,11 +476,26 @@ const App: React.FC = () => {
                                                     <span>Processing...</span>
                                                 </>
                                             ) : (
-                                                'Start Processing'
+                                                `Render ${chunks.length} Phrases`
                                             )}
                                         </button>
                                     </div>
-                                    {isProcessing && <p className="text-center text-teal-400 animate-pulse">{progressMessage}</p>}
+                                    <PhraseClipExport
+                                        phraseCount={chunks.length}
+                                        paddingMs={clipPaddingMs}
+                                        onPaddingChange={setClipPaddingMs}
+                                        ankiDeck={ankiDeck}
+                                        onAnkiDeckChange={setAnkiDeck}
+                                        transcript={transcriptLines}
+                                        transcriptFileName={transcriptFileName}
+                                        onTranscriptChange={(lines, name) => {
+                                            setTranscriptLines(lines);
+                                            setTranscriptFileName(name);
+                                        }}
+                                        onExport={handleExportClips}
+                                        disabled={isProcessing}
+                                    />
+                                    {isProcessing && <ProgressBar progress={progress} onCancel={handleCancel} />}
                                 </div>
                             )}
                             
@@ -164,6 +504,15 @@ const App: React.FC = () => {
                                     <h2 className="text-2xl font-semibold text-center text-teal-300">Results</h2>
                                     {originalAudioUrl && <AudioPlayer src={originalAudioUrl} title="Original Audio" />}
                                     <AudioPlayer src={processedAudioUrl} title="Paced Audio (with pauses)" />
+                                    {audioBuffer && chunks && (
+                                        <TimingExport
+                                            timings={calculatePhraseTimings(audioBuffer, chunks, settings)}
+                                            sampleRate={audioBuffer.sampleRate}
+                                            audioFileName={processedFileName}
+                                            audioFormat={outputOptions.format}
+                                            phraseTexts={subtitleCues ? cueTextForChunks(chunks, subtitleCues, audioBuffer.sampleRate) : undefined}
+                                        />
+                                    )}
                                     <div className="flex flex-col sm:flex-row gap-4">
                                         <a
                                             href={processedAudioUrl}
@@ -197,6 +546,15 @@ const App: React.FC = () => {
                         </>
                     )}
 
+                    {mode === 'bilingual' && (
+                        <BilingualPacer
+                            settings={settings}
+                            onSettingsChange={setSettings}
+                            outputOptions={outputOptions}
+                            onOutputOptionsChange={setOutputOptions}
+                        />
+                    )}
+
                     {mode === 'merger' && <Merger />}
 
                 </main>
@@ -0,0 +1,301 @@
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { BatchItem, BatchItemStatus, OutputOptions, ProgressUpdate, Settings } from '../types';
+import { isAbortError, processAudioFile } from '../services/audioProcessor';
+import { baseNameOf, isSupportedAudioFile, sortByFileName } from '../services/audioFiles';
+import { fileExtensionFor } from '../services/outputFormats';
+import { createZipWriter } from '../services/zipWriter';
+import { downloadBlob } from '../services/download';
+import SettingsPanel from './SettingsPanel';
+import OutputFormatPicker from './OutputFormatPicker';
+import ProgressBar from './ProgressBar';
+import { DownloadIcon, RefreshCwIcon, UploadCloudIcon, XIcon } from './icons';
+
+interface BatchPacerProps {
+    initialFiles: File[];
+    // Shared settings, applied to every file without its own
+    settings: Settings;
+    onSettingsChange: (settings: Settings) => void;
+    outputOptions: OutputOptions;
+    onOutputOptionsChange: (options: OutputOptions) => void;
+    onExit: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, { label: string; className: string }> = {
+    [BatchItemStatus.PENDING]: { label: 'Waiting', className: 'text-gray-400' },
+    [BatchItemStatus.PROCESSING]: { label: 'Processing', className: 'text-teal-300' },
+    [BatchItemStatus.DONE]: { label: 'Done', className: 'text-green-400' },
+    [BatchItemStatus.ERROR]: { label: 'Failed', className: 'text-red-400' },
+};
+
+let nextItemId = 0;
+
+const toItems = (files: File[]): BatchItem[] => sortByFileName(files).map(file => ({
+    id: nextItemId++,
+    file,
+    settingsOverride: null,
+    status: BatchItemStatus.PENDING,
+    error: null,
+    result: null,
+    resultFileName: null,
+}));
+
+const BatchPacer: React.FC<BatchPacerProps> = ({
+    initialFiles,
+    settings,
+    onSettingsChange,
+    outputOptions,
+    onOutputOptionsChange,
+    onExit,
+}) => {
+    const [items, setItems] = useState<BatchItem[]>(() => toItems(initialFiles));
+    const [isRunning, setIsRunning] = useState(false);
+    const [isZipping, setIsZipping] = useState(false);
+    const [progress, setProgress] = useState<ProgressUpdate | null>(null);
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const abortController = useRef<AbortController | null>(null);
+
+    // Stop a running batch when leaving it
+    useEffect(() => () => abortController.current?.abort(), []);
+
+    const updateItem = (id: number, changes: Partial<BatchItem>) => {
+        setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+    };
+
+    // Results made with the old settings or format would otherwise end up in the ZIP
+    const resetResults = (isAffected: (item: BatchItem) => boolean) => {
+        setItems(prev => prev.map(item => (item.status === BatchItemStatus.DONE && isAffected(item)
+            ? { ...item, status: BatchItemStatus.PENDING, result: null, resultFileName: null }
+            : item)));
+    };
+
+    const handleSharedSettingsChange = (changed: Settings) => {
+        onSettingsChange(changed);
+        resetResults(item => item.settingsOverride === null);
+    };
+
+    const handleOutputOptionsChange = (options: OutputOptions) => {
+        onOutputOptionsChange(options);
+        resetResults(() => true);
+    };
+
+    const handleAddFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = Array.from(e.target.files ?? []) as File[];
+        e.target.value = '';
+        const valid = selected.filter(isSupportedAudioFile);
+        setNotice(valid.length < selected.length
+            ? `Skipped ${selected.length - valid.length} file(s) that are not MP3 or WAV.`
+            : null);
+        setItems(prev => [...prev, ...toItems(valid)]);
+    };
+
+    const handleRun = useCallback(async () => {
+        const controller = new AbortController();
+        abortController.current = controller;
+        setIsRunning(true);
+        setEditingId(null);
+
+        // Files that already succeeded are kept; failed ones are retried
+        const queue = items.filter(item => item.status !== BatchItemStatus.DONE);
+        for (let index = 0; index < queue.length; index++) {
+            const item = queue[index];
+            updateItem(item.id, { status: BatchItemStatus.PROCESSING, error: null });
+            try {
+                const result = await processAudioFile(
+                    item.file,
+                    item.settingsOverride ?? settings,
+                    outputOptions,
+                    (update) => setProgress({ ...update, message: `${item.file.name} (${index + 1}/${queue.length}): ${update.message}` }),
+                    controller.signal
+                );
+                const resultFileName = `${baseNameOf(item.file.name)}_paced.${fileExtensionFor(outputOptions.format)}`;
+                updateItem(item.id, { status: BatchItemStatus.DONE, result, resultFileName });
+            } catch (err) {
+                if (isAbortError(err)) {
+                    updateItem(item.id, { status: BatchItemStatus.PENDING });
+                    break;
+                }
+                console.error(err);
+                updateItem(item.id, {
+                    status: BatchItemStatus.ERROR,
+                    error: err instanceof Error ? err.message : 'An unknown error occurred during processing.',
+                });
+            }
+        }
+
+        if (abortController.current === controller) {
+            abortController.current = null;
+        }
+        setProgress(null);
+        setIsRunning(false);
+    }, [items, settings, outputOptions]);
+
+    const handleCancel = () => {
+        abortController.current?.abort();
+    };
+
+    const handleDownloadAll = async () => {
+        setIsZipping(true);
+        try {
+            const zip = createZipWriter();
+            const usedNames = new Set<string>();
+            for (const item of items) {
+                if (!item.result || !item.resultFileName) continue;
+                let fileName = item.resultFileName;
+                // Files with the same name from different folders get a number
+                for (let copy = 2; usedNames.has(fileName); copy++) {
+                    fileName = item.resultFileName.replace(/(\.[^.]+)$/, `_${copy}$1`);
+                }
+                usedNames.add(fileName);
+                zip.addFile(fileName, new Uint8Array(await item.result.arrayBuffer()));
+            }
+            downloadBlob(zip.finish(), `paced_audio_${new Date().getTime()}.zip`);
+        } catch (err) {
+            console.error(err);
+            setNotice(err instanceof Error ? err.message : 'Could not create the ZIP archive.');
+        } finally {
+            setIsZipping(false);
+        }
+    };
+
+    const doneCount = items.filter(item => item.status === BatchItemStatus.DONE).length;
+    const remainingCount = items.length - doneCount;
+    const editingItem = items.find(item => item.id === editingId) ?? null;
+
+    return (
+        <div className="space-y-6">
+            <div className="text-center">
+                <h2 className="text-xl font-semibold text-teal-300">Batch Queue</h2>
+                <p className="text-sm text-gray-400">Files are paced one after another with the shared settings below, unless customized.</p>
+            </div>
+
+            {notice && <p className="text-sm text-yellow-300 text-center">{notice}</p>}
+
+            <ul className="space-y-2 max-h-80 overflow-y-auto pr-2">
+                {items.map(item => {
+                    const status = STATUS_LABELS[item.status];
+                    return (
+                        <li key={item.id} className="bg-gray-700/50 p-3 rounded-lg border border-gray-600/50 space-y-1">
+                            <div className="flex items-center gap-3">
+                                <span className="flex-grow text-sm text-gray-200 truncate" title={item.file.name}>{item.file.name}</span>
+                                <span className={`text-xs shrink-0 ${status.className}`}>{status.label}</span>
+                                {item.result && item.resultFileName && (
+                                    <button
+                                        onClick={() => downloadBlob(item.result!, item.resultFileName!)}
+                                        className="text-gray-400 hover:text-teal-300 transition-colors"
+                                        aria-label={`Download ${item.file.name}`}
+                                    >
+                                        <DownloadIcon className="h-4 w-4" />
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => setEditingId(editingId === item.id ? null : item.id)}
+                                    disabled={isRunning}
+                                    className={`text-xs px-2 py-1 rounded transition-colors disabled:opacity-50 ${item.settingsOverride ? 'bg-teal-700 text-white hover:bg-teal-600' : 'bg-gray-600 text-gray-200 hover:bg-gray-500'}`}
+                                >
+                                    {item.settingsOverride ? 'Custom' : 'Customize'}
+                                </button>
+                                <button
+                                    onClick={() => setItems(prev => prev.filter(other => other.id !== item.id))}
+                                    disabled={isRunning}
+                                    className="text-gray-500 hover:text-red-400 transition-colors disabled:opacity-50"
+                                    aria-label={`Remove ${item.file.name}`}
+                                >
+                                    <XIcon className="h-4 w-4" />
+                                </button>
+                            </div>
+                            {item.error && <p className="text-xs text-red-300">{item.error}</p>}
+                        </li>
+                    );
+                })}
+            </ul>
+
+            <div className="flex gap-3">
+                <label className={`flex-1 text-center text-sm font-semibold px-4 py-2 bg-gray-700 text-gray-200 rounded-lg transition-colors ${isRunning ? 'opacity-50 cursor-not-allowed' : 'hover:bg-gray-600 cursor-pointer'}`}>
+                    Add Files
+                    <input type="file" accept="audio/mpeg,audio/wav" multiple className="hidden" onChange={handleAddFiles} disabled={isRunning} />
+                </label>
+                <label className={`flex-1 text-center text-sm font-semibold px-4 py-2 bg-gray-700 text-gray-200 rounded-lg transition-colors ${isRunning ? 'opacity-50 cursor-not-allowed' : 'hover:bg-gray-600 cursor-pointer'}`}>
+                    Add Folder
+                    <input type="file" {...{ webkitdirectory: '' }} className="hidden" onChange={handleAddFiles} disabled={isRunning} />
+                </label>
+            </div>
+
+            {editingItem ? (
+                <div className="space-y-3">
+                    <div className="flex justify-between items-center">
+                        <h3 className="text-sm font-medium text-gray-300 truncate">Settings for {editingItem.file.name}</h3>
+                        <div className="flex gap-2 shrink-0">
+                            {editingItem.settingsOverride && (
+                                <button
+                                    onClick={() => updateItem(editingItem.id, { settingsOverride: null, status: BatchItemStatus.PENDING, result: null, resultFileName: null })}
+                                    className="text-xs px-2 py-1 bg-gray-600 text-gray-200 rounded hover:bg-gray-500 transition-colors"
+                                >
+                                    Use Shared Settings
+                                </button>
+                            )}
+                            <button
+                                onClick={() => setEditingId(null)}
+                                className="text-xs px-2 py-1 bg-gray-600 text-gray-200 rounded hover:bg-gray-500 transition-colors"
+                            >
+                                Close
+                            </button>
+                        </div>
+                    </div>
+                    <SettingsPanel
+                        settings={editingItem.settingsOverride ?? settings}
+                        onSettingsChange={(changed) => updateItem(editingItem.id, { settingsOverride: changed, status: BatchItemStatus.PENDING, result: null, resultFileName: null })}
+                        disabled={isRunning}
+                    />
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    <h3 className="text-sm font-medium text-gray-300">Shared Settings</h3>
+                    <SettingsPanel settings={settings} onSettingsChange={handleSharedSettingsChange} disabled={isRunning} />
+                </div>
+            )}
+
+            <OutputFormatPicker options={outputOptions} onChange={handleOutputOptionsChange} disabled={isRunning} />
+
+            <div className="flex flex-col sm:flex-row gap-4">
+                <button
+                    onClick={onExit}
+                    disabled={isRunning}
+                    className="w-full sm:w-1/3 flex items-center justify-center gap-2 px-6 py-4 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-300"
+                >
+                    <UploadCloudIcon className="h-5 w-5" />
+                    Start Over
+                </button>
+                <button
+                    onClick={handleRun}
+                    disabled={isRunning || remainingCount === 0}
+                    className="w-full flex items-center justify-center gap-3 px-8 py-4 bg-teal-600 text-white font-bold rounded-lg hover:bg-teal-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-all duration-300 shadow-lg hover:shadow-teal-500/30"
+                >
+                    {isRunning ? (
+                        <>
+                            <RefreshCwIcon className="animate-spin h-5 w-5" />
+                            <span>Processing...</span>
+                        </>
+                    ) : (
+                        `Process ${remainingCount} File${remainingCount === 1 ? '' : 's'}`
+                    )}
+                </button>
+            </div>
+
+            {isRunning && <ProgressBar progress={progress} onCancel={handleCancel} />}
+
+            {doneCount > 0 && !isRunning && (
+                <button
+                    onClick={handleDownloadAll}
+                    disabled={isZipping}
+                    className="w-full flex items-center justify-center gap-3 px-6 py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-500 disabled:opacity-50 transition-colors duration-300 shadow-lg hover:shadow-blue-500/30"
+                >
+                    {isZipping ? <RefreshCwIcon className="animate-spin h-5 w-5" /> : <DownloadIcon className="h-5 w-5" />}
+                    Download {doneCount} Result{doneCount === 1 ? '' : 's'} (ZIP)
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default BatchPacer;
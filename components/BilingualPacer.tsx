@@ -0,0 +1,367 @@
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { InterleaveOrder, OutputOptions, ProcessingState, ProgressUpdate, RecordingPair, Settings, SpeechChunk } from '../types';
+import { analyzeRecordingPair, isAbortError, playChunk, renderInterleavedAudio } from '../services/audioProcessor';
+import { baseNameOf, isSupportedAudioFile } from '../services/audioFiles';
+import { fileExtensionFor } from '../services/outputFormats';
+import SettingsPanel from './SettingsPanel';
+import OutputFormatPicker from './OutputFormatPicker';
+import AudioPlayer from './AudioPlayer';
+import ProgressBar from './ProgressBar';
+import { DownloadIcon, PlayIcon, RefreshCwIcon, SquareIcon, TrashIcon, UploadCloudIcon } from './icons';
+
+interface BilingualPacerProps {
+    settings: Settings;
+    onSettingsChange: (settings: Settings) => void;
+    outputOptions: OutputOptions;
+    onOutputOptionsChange: (options: OutputOptions) => void;
+}
+
+const SIDE_LABELS = ['L1', 'L2'];
+// Pairs whose phrases differ in length by more than this factor are marked,
+// as that's usually where the pairing has gone out of step
+const LENGTH_MISMATCH_RATIO = 2.5;
+
+const smallButtonClassName = "text-xs px-2 py-1 bg-gray-600 text-gray-200 rounded hover:bg-gray-500 disabled:opacity-40 disabled:cursor-not-allowed transition-colors";
+
+// Two recordings of the same dialogue, one per language, paired phrase by
+// phrase and rendered as "L1, pause, L2, pause" or the other way round.
+const BilingualPacer: React.FC<BilingualPacerProps> = ({ settings, onSettingsChange, outputOptions, onOutputOptionsChange }) => {
+    const [files, setFiles] = useState<(File | null)[]>([null, null]);
+    const [pair, setPair] = useState<RecordingPair | null>(null);
+    // Edited during review; phrase i of each side forms pair i
+    const [chunks, setChunks] = useState<SpeechChunk[][]>([[], []]);
+    const [order, setOrder] = useState<InterleaveOrder>(InterleaveOrder.L1_FIRST);
+    const [processingState, setProcessingState] = useState<ProcessingState>(ProcessingState.IDLE);
+    const [progress, setProgress] = useState<ProgressUpdate | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [resultUrl, setResultUrl] = useState<string | null>(null);
+    const [resultFileName, setResultFileName] = useState('');
+    const [playing, setPlaying] = useState<string | null>(null);
+    const stopPlayback = useRef<(() => void) | null>(null);
+    const abortController = useRef<AbortController | null>(null);
+
+    const handleStop = useCallback(() => {
+        stopPlayback.current?.();
+        stopPlayback.current = null;
+        setPlaying(null);
+    }, []);
+
+    // Stop playback and any running job when leaving the mode
+    useEffect(() => () => {
+        stopPlayback.current?.();
+        abortController.current?.abort();
+    }, []);
+
+    const isProcessing = processingState === ProcessingState.PROCESSING;
+
+    const handleFileChange = (side: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        e.target.value = '';
+        if (!selected) return;
+        if (!isSupportedAudioFile(selected)) {
+            setError('Invalid file type. Please upload an MP3 or WAV file.');
+            return;
+        }
+        setError(null);
+        setFiles(prev => prev.map((file, index) => (index === side ? selected : file)));
+        setProcessingState(ProcessingState.READY);
+    };
+
+    const runJob = async (job: (signal: AbortSignal) => Promise<void>, cancelledState: ProcessingState) => {
+        handleStop();
+        setProcessingState(ProcessingState.PROCESSING);
+        setError(null);
+        const controller = new AbortController();
+        abortController.current = controller;
+        try {
+            await job(controller.signal);
+        } catch (err) {
+            if (isAbortError(err)) {
+                setProcessingState(cancelledState);
+                return;
+            }
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'An unknown error occurred during processing.');
+            setProcessingState(cancelledState);
+        } finally {
+            abortController.current = null;
+            setProgress(null);
+        }
+    };
+
+    const handleDetect = () => {
+        const [first, second] = files;
+        if (!first || !second) return;
+        runJob(async (signal) => {
+            const result = await analyzeRecordingPair([first, second], settings, setProgress, signal);
+            setPair(result);
+            setChunks(result.chunks);
+            setProcessingState(ProcessingState.REVIEW);
+        }, ProcessingState.READY);
+    };
+
+    const handleRender = () => {
+        if (!pair) return;
+        const sides = order === InterleaveOrder.L1_FIRST ? [0, 1] : [1, 0];
+        runJob(async (signal) => {
+            const blob = await renderInterleavedAudio(
+                sides.map(side => pair.buffers[side]),
+                sides.map(side => chunks[side]),
+                settings,
+                outputOptions,
+                setProgress,
+                signal
+            );
+            if (resultUrl) URL.revokeObjectURL(resultUrl);
+            setResultUrl(URL.createObjectURL(blob));
+            setResultFileName(`${baseNameOf(files[sides[0]]!.name)}_${baseNameOf(files[sides[1]]!.name)}_interleaved.${fileExtensionFor(outputOptions.format)}`);
+            setProcessingState(ProcessingState.DONE);
+        }, ProcessingState.REVIEW);
+    };
+
+    const handlePlay = (side: number, index: number) => {
+        const key = `${side}:${index}`;
+        const wasPlaying = playing === key;
+        handleStop();
+        if (wasPlaying || !pair) return;
+        setPlaying(key);
+        stopPlayback.current = playChunk(pair.buffers[side], chunks[side][index], () => {
+            stopPlayback.current = null;
+            setPlaying(null);
+        });
+    };
+
+    const updateSide = (side: number, update: (list: SpeechChunk[]) => SpeechChunk[]) => {
+        handleStop();
+        setChunks(prev => prev.map((list, index) => (index === side ? update(list) : list)));
+    };
+
+    const joinWithNext = (side: number, index: number) => updateSide(side, list => [
+        ...list.slice(0, index),
+        { start: list[index].start, end: list[index + 1].end },
+        ...list.slice(index + 2),
+    ]);
+
+    const deletePhrase = (side: number, index: number) => updateSide(side, list => list.filter((_, i) => i !== index));
+
+    // Edits to the pairs are lost, as detection starts from scratch
+    const handleDetectAgain = () => {
+        handleStop();
+        setPair(null);
+        setChunks([[], []]);
+        setProcessingState(ProcessingState.READY);
+    };
+
+    const handleReset = () => {
+        handleStop();
+        if (resultUrl) URL.revokeObjectURL(resultUrl);
+        setFiles([null, null]);
+        setPair(null);
+        setChunks([[], []]);
+        setResultUrl(null);
+        setError(null);
+        setProcessingState(ProcessingState.IDLE);
+    };
+
+    const counts = chunks.map(list => list.length);
+    const countsMatch = counts[0] === counts[1];
+    const rowCount = Math.max(...counts);
+
+    const renderCell = (side: number, index: number) => {
+        const chunk = chunks[side][index];
+        if (!chunk || !pair) return <div className="flex-1 text-xs text-gray-500 italic px-2">No phrase</div>;
+        const isPlaying = playing === `${side}:${index}`;
+        return (
+            <div className="flex-1 flex items-center gap-2 min-w-0">
+                <button
+                    onClick={() => handlePlay(side, index)}
+                    className="text-gray-300 hover:text-teal-300 transition-colors"
+                    aria-label={`${isPlaying ? 'Stop' : 'Play'} ${SIDE_LABELS[side]} phrase ${index + 1}`}
+                >
+                    {isPlaying ? <SquareIcon className="h-4 w-4" /> : <PlayIcon className="h-4 w-4" />}
+                </button>
+                <span className="text-xs font-mono text-gray-400">{((chunk.end - chunk.start) / pair.buffers[side].sampleRate).toFixed(1)}s</span>
+                <button
+                    onClick={() => joinWithNext(side, index)}
+                    disabled={isProcessing || index === chunks[side].length - 1}
+                    className={smallButtonClassName}
+                    title="Join with the next phrase"
+                >
+                    Join next
+                </button>
+                <button
+                    onClick={() => deletePhrase(side, index)}
+                    disabled={isProcessing || chunks[side].length === 1}
+                    className="text-gray-500 hover:text-red-400 disabled:opacity-40 transition-colors"
+                    aria-label={`Delete ${SIDE_LABELS[side]} phrase ${index + 1}`}
+                >
+                    <TrashIcon className="h-4 w-4" />
+                </button>
+            </div>
+        );
+    };
+
+    return (
+        <div className="space-y-6">
+            {error && (
+                <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg" role="alert">
+                    <strong className="font-bold">Error: </strong>
+                    <span className="block sm:inline">{error}</span>
+                </div>
+            )}
+
+            {(processingState === ProcessingState.IDLE || processingState === ProcessingState.READY || (isProcessing && !pair)) && (
+                <>
+                    <div className="text-center">
+                        <h2 className="text-xl font-semibold text-teal-300">Bilingual Interleave</h2>
+                        <p className="text-sm text-gray-400">Choose matching recordings of the same dialogue in two languages. Their phrases are paired in order.</p>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        {files.map((file, side) => (
+                            <label
+                                key={side}
+                                className={`flex flex-col items-center justify-center gap-2 p-4 rounded-lg border-2 border-dashed transition-colors ${isProcessing ? 'opacity-50 cursor-not-allowed border-gray-600' : 'cursor-pointer border-gray-600 hover:border-teal-500'}`}
+                            >
+                                <UploadCloudIcon className="h-6 w-6 text-gray-400" />
+                                <span className="text-sm font-medium text-gray-300">{side === 0 ? 'First language (L1)' : 'Second language (L2)'}</span>
+                                <span className="text-xs text-gray-400 truncate max-w-full" title={file?.name}>{file ? file.name : 'Choose an MP3 or WAV file'}</span>
+                                <input type="file" accept="audio/mpeg,audio/wav" className="hidden" onChange={handleFileChange(side)} disabled={isProcessing} />
+                            </label>
+                        ))}
+                    </div>
+                    {processingState !== ProcessingState.IDLE && (
+                        <>
+                            <SettingsPanel settings={settings} onSettingsChange={onSettingsChange} disabled={isProcessing} showSpeedAndRepetition={false} />
+                            <button
+                                onClick={handleDetect}
+                                disabled={isProcessing || !files[0] || !files[1]}
+                                className="w-full flex items-center justify-center gap-3 px-8 py-4 bg-teal-600 text-white font-bold rounded-lg hover:bg-teal-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-all duration-300 shadow-lg hover:shadow-teal-500/30"
+                            >
+                                {isProcessing ? (
+                                    <>
+                                        <RefreshCwIcon className="animate-spin h-5 w-5" />
+                                        <span>Analyzing...</span>
+                                    </>
+                                ) : (
+                                    'Detect and Pair Phrases'
+                                )}
+                            </button>
+                        </>
+                    )}
+                </>
+            )}
+
+            {(processingState === ProcessingState.REVIEW || (isProcessing && pair)) && pair && (
+                <>
+                    <div className="text-center">
+                        <h2 className="text-xl font-semibold text-teal-300">Review Pairs</h2>
+                        {countsMatch ? (
+                            <p className="text-sm text-gray-400">{counts[0]} phrase pairs. Listen to the marked ones, whose lengths differ a lot.</p>
+                        ) : (
+                            <p className="text-sm text-yellow-300">
+                                L1 has {counts[0]} phrases and L2 has {counts[1]}. Join or delete phrases until every one has a partner; the first marked row is usually where the pairing slips.
+                            </p>
+                        )}
+                    </div>
+                    <ul className="space-y-1 max-h-96 overflow-y-auto pr-2">
+                        <li className="flex items-center gap-3 px-3 text-xs font-medium text-gray-400">
+                            <span className="w-8 shrink-0">#</span>
+                            <span className="flex-1 truncate" title={files[0]?.name}>L1: {files[0]?.name}</span>
+                            <span className="flex-1 truncate" title={files[1]?.name}>L2: {files[1]?.name}</span>
+                        </li>
+                        {Array.from({ length: rowCount }, (_, index) => {
+                            const lengths = chunks.map((list, side) => (list[index] ? (list[index].end - list[index].start) / pair.buffers[side].sampleRate : null));
+                            const mismatched = lengths[0] === null || lengths[1] === null
+                                || Math.max(lengths[0], lengths[1]) > LENGTH_MISMATCH_RATIO * Math.min(lengths[0], lengths[1]);
+                            return (
+                                <li
+                                    key={index}
+                                    className={`flex items-center gap-3 p-2 rounded-lg border ${mismatched ? 'bg-yellow-900/20 border-yellow-700/50' : 'bg-gray-700/50 border-gray-600/50'}`}
+                                >
+                                    <span className="w-8 shrink-0 text-xs text-gray-400">{index + 1}</span>
+                                    {renderCell(0, index)}
+                                    {renderCell(1, index)}
+                                </li>
+                            );
+                        })}
+                    </ul>
+
+                    <div className="space-y-2">
+                        <label htmlFor="interleave-order" className="block text-sm font-medium text-gray-300">Order</label>
+                        <select
+                            id="interleave-order"
+                            value={order}
+                            onChange={(e) => setOrder(e.target.value as InterleaveOrder)}
+                            disabled={isProcessing}
+                            className="w-full bg-gray-700 text-gray-200 text-sm rounded-lg px-3 py-2 border border-gray-600 focus:outline-none focus:border-teal-500 disabled:opacity-50"
+                        >
+                            <option value={InterleaveOrder.L1_FIRST}>L1 phrase, pause, L2 phrase, pause</option>
+                            <option value={InterleaveOrder.L2_FIRST}>L2 phrase, pause, L1 phrase, pause</option>
+                        </select>
+                        <p className="text-xs text-gray-500">Pauses follow the pause settings, based on the length of the phrase before them.</p>
+                    </div>
+
+                    <OutputFormatPicker options={outputOptions} onChange={onOutputOptionsChange} disabled={isProcessing} />
+
+                    <div className="flex flex-col sm:flex-row gap-4">
+                        <button
+                            onClick={handleDetectAgain}
+                            disabled={isProcessing}
+                            className="w-full sm:w-1/3 px-6 py-4 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-300"
+                        >
+                            Detect Again
+                        </button>
+                        <button
+                            onClick={handleRender}
+                            disabled={isProcessing || !countsMatch}
+                            className="w-full flex items-center justify-center gap-3 px-8 py-4 bg-teal-600 text-white font-bold rounded-lg hover:bg-teal-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-all duration-300 shadow-lg hover:shadow-teal-500/30"
+                        >
+                            {isProcessing ? (
+                                <>
+                                    <RefreshCwIcon className="animate-spin h-5 w-5" />
+                                    <span>Rendering...</span>
+                                </>
+                            ) : (
+                                `Render ${counts[0]} Pairs`
+                            )}
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {isProcessing && <ProgressBar progress={progress} onCancel={() => abortController.current?.abort()} />}
+
+            {processingState === ProcessingState.DONE && resultUrl && (
+                <div className="space-y-6">
+                    <h2 className="text-2xl font-semibold text-center text-teal-300">Interleave Complete</h2>
+                    <AudioPlayer src={resultUrl} title="Interleaved Audio" />
+                    <div className="flex flex-col sm:flex-row gap-4">
+                        <a
+                            href={resultUrl}
+                            download={resultFileName}
+                            className="w-full flex items-center justify-center gap-3 px-6 py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-500 transition-colors duration-300 shadow-lg hover:shadow-blue-500/30"
+                        >
+                            <DownloadIcon className="h-5 w-5" />
+                            Download
+                        </a>
+                        <button
+                            onClick={() => setProcessingState(ProcessingState.REVIEW)}
+                            className="w-full px-6 py-3 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 transition-colors duration-300"
+                        >
+                            Back to Pairs
+                        </button>
+                        <button
+                            onClick={handleReset}
+                            className="w-full flex items-center justify-center gap-3 px-6 py-3 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 transition-colors duration-300"
+                        >
+                            <UploadCloudIcon className="h-5 w-5" />
+                            Start Over
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BilingualPacer;
@@ -0,0 +1,365 @@
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { SpeechChunk } from '../types';
+import { claimPlayback, playChunk, releasePlayback } from '../services/audioProcessor';
+import { PlayIcon, RedoIcon, ScissorsIcon, SquareIcon, TrashIcon, UndoIcon } from './icons';
+
+interface ChunkEditorProps {
+    audioBuffer: AudioBuffer;
+    chunks: SpeechChunk[];
+    onChunksChange: (chunks: SpeechChunk[]) => void;
+    disabled?: boolean;
+}
+
+type Edge = 'start' | 'end';
+
+const CANVAS_HEIGHT = 140;
+const MAX_CANVAS_WIDTH = 16384; // Browsers refuse to draw much wider canvases
+const HANDLE_TOLERANCE_PX = 5;
+const MIN_CHUNK_DURATION = 0.01; // Seconds a chunk can be shrunk to by dragging or splitting
+
+function splitChunk(chunks: SpeechChunk[], index: number, at: number): SpeechChunk[] {
+    const chunk = chunks[index];
+    return [
+        ...chunks.slice(0, index),
+        { start: chunk.start, end: at },
+        { start: at, end: chunk.end },
+        ...chunks.slice(index + 1),
+    ];
+}
+
+function mergeWithNext(chunks: SpeechChunk[], index: number): SpeechChunk[] {
+    return [
+        ...chunks.slice(0, index),
+        { start: chunks[index].start, end: chunks[index + 1].end },
+        ...chunks.slice(index + 2),
+    ];
+}
+
+function moveEdge(chunks: SpeechChunk[], index: number, edge: Edge, position: number, minLength: number, totalLength: number): SpeechChunk[] {
+    const chunk = chunks[index];
+    const updated = { ...chunk };
+    if (edge === 'start') {
+        const lowerBound = index > 0 ? chunks[index - 1].end : 0;
+        updated.start = Math.round(Math.max(lowerBound, Math.min(position, chunk.end - minLength)));
+    } else {
+        const upperBound = index < chunks.length - 1 ? chunks[index + 1].start : totalLength;
+        updated.end = Math.round(Math.min(upperBound, Math.max(position, chunk.start + minLength)));
+    }
+    return chunks.map((c, i) => (i === index ? updated : c));
+}
+
+// Min/max sample value for every pixel column, across all channels.
+function computePeaks(audioBuffer: AudioBuffer, columns: number): Float32Array {
+    const peaks = new Float32Array(columns * 2);
+    const samplesPerColumn = audioBuffer.length / columns;
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+        const data = audioBuffer.getChannelData(channel);
+        for (let column = 0; column < columns; column++) {
+            const from = Math.floor(column * samplesPerColumn);
+            const to = Math.min(data.length, Math.floor((column + 1) * samplesPerColumn));
+            let min = peaks[column * 2];
+            let max = peaks[column * 2 + 1];
+            for (let i = from; i < to; i++) {
+                if (data[i] < min) min = data[i];
+                if (data[i] > max) max = data[i];
+            }
+            peaks[column * 2] = min;
+            peaks[column * 2 + 1] = max;
+        }
+    }
+    return peaks;
+}
+
+const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${(seconds - minutes * 60).toFixed(2).padStart(5, '0')}`;
+};
+
+const ToolbarButton: React.FC<{ title: string; onClick: () => void; disabled?: boolean; children: React.ReactNode }> = ({ title, onClick, disabled, children }) => (
+    <button
+        title={title}
+        onClick={onClick}
+        disabled={disabled}
+        className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium bg-gray-700 text-gray-200 rounded hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+    >
+        {children}
+    </button>
+);
+
+const ChunkEditor: React.FC<ChunkEditorProps> = ({ audioBuffer, chunks, onChunksChange, disabled = false }) => {
+    const [past, setPast] = useState<SpeechChunk[][]>([]);
+    const [future, setFuture] = useState<SpeechChunk[][]>([]);
+    const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+    const [cursor, setCursor] = useState<number | null>(null);
+    const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+    const [zoom, setZoom] = useState(1);
+    const [containerWidth, setContainerWidth] = useState(0);
+
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const stopPlayback = useRef<(() => void) | null>(null);
+    const drag = useRef<{ index: number; edge: Edge; before: SpeechChunk[]; moved: boolean } | null>(null);
+
+    const { sampleRate, length } = audioBuffer;
+    const minChunkLength = Math.round(MIN_CHUNK_DURATION * sampleRate);
+    const width = Math.min(MAX_CANVAS_WIDTH, Math.max(1, Math.floor(containerWidth * zoom)));
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(entries => setContainerWidth(entries[0].contentRect.width));
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+
+    const peaks = useMemo(() => computePeaks(audioBuffer, width), [audioBuffer, width]);
+
+    const sampleToX = useCallback((sample: number) => (sample / length) * width, [length, width]);
+    const xToSample = useCallback((x: number) => Math.max(0, Math.min(length, Math.round((x / width) * length))), [length, width]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        ctx.clearRect(0, 0, width, CANVAS_HEIGHT);
+        ctx.fillStyle = '#111827';
+        ctx.fillRect(0, 0, width, CANVAS_HEIGHT);
+
+        chunks.forEach((chunk, index) => {
+            const x = sampleToX(chunk.start);
+            const w = Math.max(1, sampleToX(chunk.end) - x);
+            ctx.fillStyle = index === selectedIndex ? 'rgba(45, 212, 191, 0.35)' : 'rgba(45, 212, 191, 0.15)';
+            ctx.fillRect(x, 0, w, CANVAS_HEIGHT);
+            ctx.fillStyle = index === selectedIndex ? '#5eead4' : '#0f766e';
+            ctx.fillRect(x, 0, 2, CANVAS_HEIGHT);
+            ctx.fillRect(x + w - 2, 0, 2, CANVAS_HEIGHT);
+        });
+
+        const mid = CANVAS_HEIGHT / 2;
+        ctx.fillStyle = '#9ca3af';
+        for (let column = 0; column < width; column++) {
+            const min = peaks[column * 2];
+            const max = peaks[column * 2 + 1];
+            const top = mid - max * mid;
+            ctx.fillRect(column, top, 1, Math.max(1, (max - min) * mid));
+        }
+
+        if (cursor !== null) {
+            ctx.fillStyle = '#fbbf24';
+            ctx.fillRect(sampleToX(cursor), 0, 1, CANVAS_HEIGHT);
+        }
+    }, [chunks, peaks, selectedIndex, cursor, width, sampleToX]);
+
+    const commit = useCallback((next: SpeechChunk[]) => {
+        setPast(prev => [...prev, chunks]);
+        setFuture([]);
+        onChunksChange(next);
+    }, [chunks, onChunksChange]);
+
+    const handleUndo = useCallback(() => {
+        if (past.length === 0) return;
+        setFuture(prev => [chunks, ...prev]);
+        setPast(prev => prev.slice(0, -1));
+        onChunksChange(past[past.length - 1]);
+        setSelectedIndex(null);
+    }, [past, chunks, onChunksChange]);
+
+    const handleRedo = useCallback(() => {
+        if (future.length === 0) return;
+        setPast(prev => [...prev, chunks]);
+        setFuture(prev => prev.slice(1));
+        onChunksChange(future[0]);
+        setSelectedIndex(null);
+    }, [future, chunks, onChunksChange]);
+
+    const handleStop = useCallback(() => {
+        stopPlayback.current?.();
+        stopPlayback.current = null;
+        setPlayingIndex(null);
+    }, []);
+
+    useEffect(() => () => {
+        handleStop();
+        releasePlayback(handleStop);
+    }, [handleStop]);
+
+    const handlePlay = useCallback((index: number) => {
+        handleStop();
+        claimPlayback(handleStop);
+        stopPlayback.current = playChunk(audioBuffer, chunks[index], () => {
+            stopPlayback.current = null;
+            setPlayingIndex(null);
+        });
+        setPlayingIndex(index);
+    }, [audioBuffer, chunks, handleStop]);
+
+    const splitIndex = cursor === null ? -1 : chunks.findIndex(c => cursor - c.start >= minChunkLength && c.end - cursor >= minChunkLength);
+
+    const handleSplit = useCallback(() => {
+        if (cursor === null || splitIndex < 0) return;
+        commit(splitChunk(chunks, splitIndex, cursor));
+        setSelectedIndex(splitIndex + 1);
+    }, [chunks, cursor, splitIndex, commit]);
+
+    const handleMerge = useCallback(() => {
+        if (selectedIndex === null || selectedIndex >= chunks.length - 1) return;
+        commit(mergeWithNext(chunks, selectedIndex));
+    }, [chunks, selectedIndex, commit]);
+
+    const handleDelete = useCallback(() => {
+        if (selectedIndex === null || chunks.length <= 1) return;
+        commit(chunks.filter((_, i) => i !== selectedIndex));
+        setSelectedIndex(null);
+    }, [chunks, selectedIndex, commit]);
+
+    const findEdge = (x: number): { index: number; edge: Edge } | null => {
+        let best: { index: number; edge: Edge } | null = null;
+        let bestDistance = HANDLE_TOLERANCE_PX;
+        chunks.forEach((chunk, index) => {
+            const startDistance = Math.abs(sampleToX(chunk.start) - x);
+            const endDistance = Math.abs(sampleToX(chunk.end) - x);
+            if (startDistance <= bestDistance) {
+                best = { index, edge: 'start' };
+                bestDistance = startDistance;
+            }
+            if (endDistance <= bestDistance) {
+                best = { index, edge: 'end' };
+                bestDistance = endDistance;
+            }
+        });
+        return best;
+    };
+
+    const getX = (e: React.PointerEvent<HTMLCanvasElement>) => e.clientX - e.currentTarget.getBoundingClientRect().left;
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (disabled) return;
+        const x = getX(e);
+        const edge = findEdge(x);
+        if (edge) {
+            drag.current = { ...edge, before: chunks, moved: false };
+            e.currentTarget.setPointerCapture(e.pointerId);
+            setSelectedIndex(edge.index);
+            return;
+        }
+        const sample = xToSample(x);
+        setCursor(sample);
+        const index = chunks.findIndex(c => sample >= c.start && sample < c.end);
+        setSelectedIndex(index >= 0 ? index : null);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const x = getX(e);
+        if (!drag.current) {
+            e.currentTarget.style.cursor = !disabled && findEdge(x) ? 'col-resize' : 'crosshair';
+            return;
+        }
+        const { index, edge } = drag.current;
+        drag.current.moved = true;
+        onChunksChange(moveEdge(chunks, index, edge, xToSample(x), minChunkLength, length));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!drag.current) return;
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        if (drag.current.moved) {
+            // The whole drag is a single undo step
+            const before = drag.current.before;
+            setPast(prev => [...prev, before]);
+            setFuture([]);
+        }
+        drag.current = null;
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (disabled) return;
+        const key = e.key.toLowerCase();
+        if ((e.ctrlKey || e.metaKey) && key === 'z') {
+            e.preventDefault();
+            if (e.shiftKey) handleRedo(); else handleUndo();
+        } else if ((e.ctrlKey || e.metaKey) && key === 'y') {
+            e.preventDefault();
+            handleRedo();
+        } else if (key === 'delete' || key === 'backspace') {
+            e.preventDefault();
+            handleDelete();
+        } else if (key === 's') {
+            handleSplit();
+        } else if (key === 'm') {
+            handleMerge();
+        } else if (key === ' ' && selectedIndex !== null) {
+            e.preventDefault();
+            if (playingIndex !== null) handleStop(); else handlePlay(selectedIndex);
+        }
+    };
+
+    const selectedChunk = selectedIndex !== null ? chunks[selectedIndex] : null;
+
+    return (
+        <div className="space-y-3 outline-none" tabIndex={0} onKeyDown={handleKeyDown}>
+            <div className="flex flex-wrap items-center gap-2">
+                {playingIndex !== null ? (
+                    <ToolbarButton title="Stop playback (Space)" onClick={handleStop}>
+                        <SquareIcon className="h-3.5 w-3.5" /> Stop
+                    </ToolbarButton>
+                ) : (
+                    <ToolbarButton title="Play selected phrase (Space)" onClick={() => selectedIndex !== null && handlePlay(selectedIndex)} disabled={selectedIndex === null}>
+                        <PlayIcon className="h-3.5 w-3.5" /> Play
+                    </ToolbarButton>
+                )}
+                <ToolbarButton title="Split the phrase at the cursor (S)" onClick={handleSplit} disabled={disabled || splitIndex < 0}>
+                    <ScissorsIcon className="h-3.5 w-3.5" /> Split
+                </ToolbarButton>
+                <ToolbarButton title="Merge with the next phrase (M)" onClick={handleMerge} disabled={disabled || selectedIndex === null || selectedIndex >= chunks.length - 1}>
+                    Merge Next
+                </ToolbarButton>
+                <ToolbarButton title="Delete the selected phrase (Del)" onClick={handleDelete} disabled={disabled || selectedIndex === null || chunks.length <= 1}>
+                    <TrashIcon className="h-3.5 w-3.5" /> Delete
+                </ToolbarButton>
+                <div className="flex-grow" />
+                <ToolbarButton title="Undo (Ctrl+Z)" onClick={handleUndo} disabled={disabled || past.length === 0}>
+                    <UndoIcon className="h-3.5 w-3.5" />
+                </ToolbarButton>
+                <ToolbarButton title="Redo (Ctrl+Shift+Z)" onClick={handleRedo} disabled={disabled || future.length === 0}>
+                    <RedoIcon className="h-3.5 w-3.5" />
+                </ToolbarButton>
+            </div>
+
+            <div ref={containerRef} className="overflow-x-auto rounded border border-gray-700">
+                <canvas
+                    ref={canvasRef}
+                    width={width}
+                    height={CANVAS_HEIGHT}
+                    style={{ width, height: CANVAS_HEIGHT, display: 'block' }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                />
+            </div>
+
+            <div className="flex items-center justify-between gap-4 text-xs text-gray-400">
+                <span>
+                    {selectedChunk && selectedIndex !== null
+                        ? `Phrase ${selectedIndex + 1} of ${chunks.length}: ${formatTime(selectedChunk.start / sampleRate)} – ${formatTime(selectedChunk.end / sampleRate)}`
+                        : `${chunks.length} phrases. Click a phrase to select it, drag its edges to adjust.`}
+                </span>
+                <label className="flex items-center gap-2 shrink-0">
+                    Zoom
+                    <input
+                        type="range"
+                        min="1"
+                        max="50"
+                        step="1"
+                        value={zoom}
+                        onChange={(e) => setZoom(parseInt(e.target.value, 10))}
+                        className="w-24 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-teal-500"
+                    />
+                </label>
+            </div>
+        </div>
+    );
+};
+
+export default ChunkEditor;
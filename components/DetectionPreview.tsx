@@ -0,0 +1,64 @@
+import React, { useMemo } from 'react';
+import { Settings, SpeechChunk } from '../types';
+import { calculateOutputLength } from '../services/audioProcessor';
+
+interface DetectionPreviewProps {
+    chunks: SpeechChunk[] | null;
+    settings: Settings;
+    audioBuffer: AudioBuffer;
+    isUpdating: boolean;
+}
+
+const formatDuration = (seconds: number) => {
+    if (seconds < 60) return `${seconds.toFixed(1)}s`;
+    // Rounded before splitting, so 119.7s becomes 2m 00s rather than 1m 60s
+    const total = Math.round(seconds);
+    const minutes = Math.floor(total / 60);
+    return `${minutes}m ${(total % 60).toString().padStart(2, '0')}s`;
+};
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div className="text-center">
+        <p className="text-lg font-semibold text-teal-300">{value}</p>
+        <p className="text-xs text-gray-500">{label}</p>
+    </div>
+);
+
+const DetectionPreview: React.FC<DetectionPreviewProps> = ({ chunks, settings, audioBuffer, isUpdating }) => {
+    const summary = useMemo(() => {
+        if (!chunks || chunks.length === 0) return null;
+        const { sampleRate } = audioBuffer;
+        const lengths = chunks.map(c => (c.end - c.start) / sampleRate).sort((a, b) => a - b);
+        return {
+            count: chunks.length,
+            outputDuration: calculateOutputLength(audioBuffer, chunks, settings) / sampleRate,
+            shortest: lengths[0],
+            median: lengths[Math.floor(lengths.length / 2)],
+            longest: lengths[lengths.length - 1],
+        };
+    }, [chunks, settings, audioBuffer]);
+
+    return (
+        <div className={`bg-gray-800/30 p-4 rounded-lg border border-gray-700/30 transition-opacity ${isUpdating ? 'opacity-60' : ''}`}>
+            <h3 className="text-sm font-medium text-gray-300 mb-3">Detection Preview</h3>
+            {chunks === null ? (
+                <p className="text-sm text-gray-500 text-center">Analyzing audio...</p>
+            ) : summary === null ? (
+                <p className="text-sm text-yellow-300 text-center">No speech detected with these settings. Try lowering the silence threshold.</p>
+            ) : (
+                <div className="space-y-3">
+                    <div className="grid grid-cols-3 gap-2">
+                        <Stat label="phrases" value={summary.count.toString()} />
+                        <Stat label={`output (original ${formatDuration(audioBuffer.duration)})`} value={formatDuration(summary.outputDuration)} />
+                        <Stat label="median phrase" value={`${summary.median.toFixed(1)}s`} />
+                    </div>
+                    <p className="text-xs text-gray-500 text-center">
+                        Phrase lengths range from {summary.shortest.toFixed(2)}s to {summary.longest.toFixed(2)}s.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DetectionPreview;
@@ -1,21 +1,43 @@
-import React, { useState, useCallback, useMemo, useRef } from 'react';
-import { ProcessingState } from '../types';
+import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
+import { MergeClip, MergeItem, MergeTransition, MergeTransitionType, OutputOptions, ProcessingState, ProgressUpdate } from '../types';
 import FileUpload from './FileUpload';
-import { mergeAudioFiles } from '../services/audioProcessor';
+import { isAbortError, mergeAudioFiles } from '../services/audioProcessor';
 import { DownloadIcon, GripVerticalIcon, RefreshCwIcon, UploadCloudIcon, XIcon } from './icons';
 import AudioPlayer from './AudioPlayer';
+import ProgressBar from './ProgressBar';
+import OutputFormatPicker from './OutputFormatPicker';
+import { DEFAULT_OUTPUT_OPTIONS, fileExtensionFor } from '../services/outputFormats';
+
+// Inputs that differ are converted to the highest rate and the most channels among them
+const MERGE_SOURCE_LABELS = { channels: 'Most channels of the inputs', sampleRate: 'Highest rate of the inputs' };
+
+const DEFAULT_CLIP: MergeClip = { trimStart: 0, trimEnd: 0, gainDb: 0, normalize: true };
+const DEFAULT_TRANSITION: MergeTransition = { type: MergeTransitionType.GAP, duration: 0 };
+
+const numberInputClassName = "w-20 bg-gray-700 text-gray-200 text-xs rounded px-2 py-1 border border-gray-600 focus:outline-none focus:border-teal-500 disabled:opacity-50";
+
+let nextItemId = 0;
 
 const Merger: React.FC = () => {
-    const [files, setFiles] = useState<File[]>([]);
+    const [items, setItems] = useState<MergeItem[]>([]);
+    // Transition i sits between items i and i + 1; missing ones are back-to-back
+    const [transitions, setTransitions] = useState<MergeTransition[]>([]);
+    const [editingId, setEditingId] = useState<number | null>(null);
     const [processingState, setProcessingState] = useState<ProcessingState>(ProcessingState.IDLE);
-    const [progressMessage, setProgressMessage] = useState<string>('');
+    const [progress, setProgress] = useState<ProgressUpdate | null>(null);
     const [mergedAudioUrl, setMergedAudioUrl] = useState<string | null>(null);
     const [mergedFileName, setMergedFileName] = useState<string>('');
     const [error, setError] = useState<string | null>(null);
+    const [outputOptions, setOutputOptions] = useState<OutputOptions>(DEFAULT_OUTPUT_OPTIONS);
+    const [conversions, setConversions] = useState<string[]>([]);
 
     // Ref to track the index of the item being dragged
     const dragItem = useRef<number | null>(null);
     const dragOverItem = useRef<number | null>(null);
+    const abortController = useRef<AbortController | null>(null);
+
+    // Stop a running merge when switching away from the merger
+    useEffect(() => () => abortController.current?.abort(), []);
 
     const handleFileSelect = useCallback((selectedFiles: File[]) => {
         const validFiles = selectedFiles.filter(file => 
@@ -28,29 +50,51 @@ const Merger: React.FC = () => {
             setError(null);
         }
 
-        setFiles(prevFiles => [...prevFiles, ...validFiles]);
+        setItems(prevItems => [...prevItems, ...validFiles.map(file => ({ id: nextItemId++, file, clip: DEFAULT_CLIP }))]);
         setProcessingState(ProcessingState.READY);
     }, []);
     
     const handleRemoveFile = (indexToRemove: number) => {
-        setFiles(prevFiles => prevFiles.filter((_, index) => index !== indexToRemove));
+        // Drops the boundary after the file, or before it for the last one
+        const boundary = Math.min(indexToRemove, items.length - 2);
+        setItems(prevItems => prevItems.filter((_, index) => index !== indexToRemove));
+        setTransitions(prev => prev.filter((_, index) => index !== boundary));
+    };
+
+    const updateClip = (id: number, changes: Partial<MergeClip>) => {
+        setItems(prevItems => prevItems.map(item => (item.id === id ? { ...item, clip: { ...item.clip, ...changes } } : item)));
+    };
+
+    const transitionAt = (index: number) => transitions[index] ?? DEFAULT_TRANSITION;
+
+    const updateTransition = (index: number, changes: Partial<MergeTransition>) => {
+        setTransitions(prev => {
+            const next = Array.from({ length: Math.max(prev.length, index + 1) }, (_, i) => prev[i] ?? DEFAULT_TRANSITION);
+            next[index] = { ...next[index], ...changes };
+            return next;
+        });
+    };
+
+    const applyTransitionToAll = (index: number) => {
+        const transition = transitionAt(index);
+        setTransitions(Array.from({ length: items.length - 1 }, () => transition));
     };
 
     const handleDragSort = () => {
         if (dragItem.current === null || dragOverItem.current === null) return;
 
-        const newFiles = [...files];
-        const draggedItemContent = newFiles.splice(dragItem.current, 1)[0];
-        newFiles.splice(dragOverItem.current, 0, draggedItemContent);
+        const newItems = [...items];
+        const draggedItemContent = newItems.splice(dragItem.current, 1)[0];
+        newItems.splice(dragOverItem.current, 0, draggedItemContent);
         
         dragItem.current = null;
         dragOverItem.current = null;
         
-        setFiles(newFiles);
+        setItems(newItems);
     };
 
     const handleMerge = useCallback(async () => {
-        if (files.length < 2) {
+        if (items.length < 2) {
             setError("Please select at least two files to merge.");
             return;
         }
@@ -59,30 +103,49 @@ const Merger: React.FC = () => {
         setError(null);
         setMergedAudioUrl(null);
 
+        const controller = new AbortController();
+        abortController.current = controller;
+
         try {
-            const mergedBlob = await mergeAudioFiles(files, setProgressMessage);
-            const url = URL.createObjectURL(mergedBlob);
+            const boundaries = items.slice(1).map((_, index) => transitionAt(index));
+            const result = await mergeAudioFiles(items, boundaries, outputOptions, setProgress, controller.signal);
+            const url = URL.createObjectURL(result.blob);
             setMergedAudioUrl(url);
-            setMergedFileName(`merged_audio_${new Date().getTime()}.mp3`);
+            setConversions(result.conversions);
+            setMergedFileName(`merged_audio_${new Date().getTime()}.${fileExtensionFor(outputOptions.format)}`);
             setProcessingState(ProcessingState.DONE);
-            setProgressMessage('Merging complete!');
+            setProgress(null);
         } catch (err) {
+            setProgress(null);
+            if (isAbortError(err)) {
+                // Cancelled by the user: keep the file list so the merge can be restarted
+                setProcessingState(ProcessingState.READY);
+                return;
+            }
             console.error(err);
             const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during merging.';
             setError(errorMessage);
             setProcessingState(ProcessingState.ERROR);
-            setProgressMessage('');
+        } finally {
+            abortController.current = null;
         }
-    }, [files]);
+    }, [items, transitions, outputOptions]);
+
+    const handleCancel = () => {
+        abortController.current?.abort();
+    };
     
     const handleReset = () => {
-        setFiles([]);
+        setItems([]);
+        setTransitions([]);
+        setEditingId(null);
         setProcessingState(ProcessingState.IDLE);
         setError(null);
-        setProgressMessage('');
+        setProgress(null);
         if (mergedAudioUrl) URL.revokeObjectURL(mergedAudioUrl);
         setMergedAudioUrl(null);
         setMergedFileName('');
+        setConversions([]);
     };
     
     const isProcessing = useMemo(() => processingState === ProcessingState.PROCESSING, [processingState]);
@@ -103,35 +166,139 @@ const Merger: React.FC = () => {
             {processingState !== ProcessingState.DONE && processingState !== ProcessingState.ERROR && (
                 <>
                     <h2 className="text-xl font-semibold text-center text-teal-300">Files to Merge</h2>
-                    <p className="text-center text-sm text-gray-400 -mt-4">Drag and drop to reorder files.</p>
-                    <ul className="space-y-2 max-h-64 overflow-y-auto pr-2">
-                        {files.map((file, index) => (
-                             <li
-                                key={index}
-                                draggable
-                                onDragStart={() => dragItem.current = index}
-                                onDragEnter={() => dragOverItem.current = index}
-                                onDragEnd={handleDragSort}
-                                onDragOver={(e) => e.preventDefault()}
-                                className="flex items-center bg-gray-700/50 p-3 rounded-lg border border-gray-600/50 cursor-grab active:cursor-grabbing"
-                            >
-                                <GripVerticalIcon className="h-5 w-5 text-gray-500 mr-3 shrink-0" />
-                                <span className="flex-grow text-sm text-gray-200 truncate" title={file.name}>{file.name}</span>
-                                <span className="text-xs text-gray-400 ml-3 shrink-0">({(file.size / 1024).toFixed(1)} KB)</span>
-                                <button onClick={() => handleRemoveFile(index)} className="ml-3 text-gray-500 hover:text-red-400 transition-colors">
-                                    <XIcon className="h-4 w-4" />
-                                </button>
-                            </li>
-                        ))}
+                    <p className="text-center text-sm text-gray-400 -mt-4">Drag and drop to reorder files. Choose silence or a crossfade between them.</p>
+                    <ul className="space-y-2 max-h-96 overflow-y-auto pr-2">
+                        {items.map((item, index) => {
+                            const { clip } = item;
+                            const isAdjusted = clip.trimStart > 0 || clip.trimEnd > 0 || clip.gainDb !== 0 || !clip.normalize;
+                            const transition = transitionAt(index);
+                            return (
+                                <React.Fragment key={item.id}>
+                                    <li
+                                        draggable
+                                        onDragStart={() => dragItem.current = index}
+                                        onDragEnter={() => dragOverItem.current = index}
+                                        onDragEnd={handleDragSort}
+                                        onDragOver={(e) => e.preventDefault()}
+                                        className="bg-gray-700/50 p-3 rounded-lg border border-gray-600/50 cursor-grab active:cursor-grabbing space-y-2"
+                                    >
+                                        <div className="flex items-center">
+                                            <GripVerticalIcon className="h-5 w-5 text-gray-500 mr-3 shrink-0" />
+                                            <span className="flex-grow text-sm text-gray-200 truncate" title={item.file.name}>{item.file.name}</span>
+                                            <span className="text-xs text-gray-400 ml-3 shrink-0">({(item.file.size / 1024).toFixed(1)} KB)</span>
+                                            <button
+                                                onClick={() => setEditingId(editingId === item.id ? null : item.id)}
+                                                className={`ml-3 text-xs px-2 py-1 rounded transition-colors shrink-0 ${isAdjusted ? 'bg-teal-700 text-white hover:bg-teal-600' : 'bg-gray-600 text-gray-200 hover:bg-gray-500'}`}
+                                            >
+                                                {isAdjusted ? 'Adjusted' : 'Adjust'}
+                                            </button>
+                                            <button onClick={() => handleRemoveFile(index)} className="ml-3 text-gray-500 hover:text-red-400 transition-colors">
+                                                <XIcon className="h-4 w-4" />
+                                            </button>
+                                        </div>
+                                        {editingId === item.id && (
+                                            <div className="flex flex-wrap gap-4 pl-8 text-xs text-gray-300">
+                                                <label className="flex items-center gap-2">
+                                                    Trim start (s)
+                                                    <input
+                                                        type="number"
+                                                        min={0}
+                                                        step={0.1}
+                                                        value={clip.trimStart}
+                                                        onChange={(e) => updateClip(item.id, { trimStart: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                                        className={numberInputClassName}
+                                                    />
+                                                </label>
+                                                <label className="flex items-center gap-2">
+                                                    Trim end (s)
+                                                    <input
+                                                        type="number"
+                                                        min={0}
+                                                        step={0.1}
+                                                        value={clip.trimEnd}
+                                                        onChange={(e) => updateClip(item.id, { trimEnd: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                                        className={numberInputClassName}
+                                                    />
+                                                </label>
+                                                <label className="flex items-center gap-2">
+                                                    Gain (dB)
+                                                    <input
+                                                        type="number"
+                                                        min={-30}
+                                                        max={30}
+                                                        step={0.5}
+                                                        value={clip.gainDb}
+                                                        onChange={(e) => updateClip(item.id, { gainDb: Math.min(30, Math.max(-30, parseFloat(e.target.value) || 0)) })}
+                                                        className={numberInputClassName}
+                                                    />
+                                                </label>
+                                                {outputOptions.loudnessTarget !== null && (
+                                                    <label className="flex items-center gap-2">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={clip.normalize}
+                                                            onChange={(e) => updateClip(item.id, { normalize: e.target.checked })}
+                                                            className="accent-teal-500"
+                                                        />
+                                                        Normalize loudness
+                                                    </label>
+                                                )}
+                                            </div>
+                                        )}
+                                    </li>
+                                    {index < items.length - 1 && (
+                                        <li className="flex flex-wrap items-center justify-center gap-2 text-xs text-gray-400">
+                                            <select
+                                                value={transition.type}
+                                                onChange={(e) => updateTransition(index, { type: e.target.value as MergeTransitionType })}
+                                                className="bg-gray-700 text-gray-200 text-xs rounded px-2 py-1 border border-gray-600 focus:outline-none focus:border-teal-500"
+                                                aria-label={`Transition after ${item.file.name}`}
+                                            >
+                                                <option value={MergeTransitionType.GAP}>Silence</option>
+                                                <option value={MergeTransitionType.CROSSFADE}>Crossfade</option>
+                                            </select>
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                max={30}
+                                                step={0.1}
+                                                value={transition.duration}
+                                                onChange={(e) => updateTransition(index, { duration: Math.min(30, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                                                className={numberInputClassName}
+                                                aria-label={`Transition length after ${item.file.name} in seconds`}
+                                            />
+                                            <span>s</span>
+                                            {items.length > 2 && (
+                                                <button onClick={() => applyTransitionToAll(index)} className="text-teal-400 hover:text-teal-300 transition-colors">
+                                                    Use for all
+                                                </button>
+                                            )}
+                                        </li>
+                                    )}
+                                </React.Fragment>
+                            );
+                        })}
                     </ul>
                      <div className="pt-2">
                         <FileUpload onFileSelect={handleFileSelect} multiple={true} />
                     </div>
 
+                    <OutputFormatPicker
+                        options={outputOptions}
+                        onChange={setOutputOptions}
+                        disabled={isProcessing}
+                        sourceLabels={MERGE_SOURCE_LABELS}
+                    />
+                    {outputOptions.loudnessTarget !== null && (
+                        <p className="text-xs text-gray-500 -mt-4">
+                            Each file is brought to the loudness target on its own before merging; the gain set per file applies on top.
+                        </p>
+                    )}
+
                     <div className="flex justify-center">
                         <button
                             onClick={handleMerge}
-                            disabled={isProcessing || files.length < 2}
+                            disabled={isProcessing || items.length < 2}
                             className="w-full flex items-center justify-center gap-3 px-8 py-4 bg-teal-600 text-white font-bold rounded-lg hover:bg-teal-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-all duration-300 shadow-lg hover:shadow-teal-500/30"
                         >
                              {isProcessing ? (
@@ -140,19 +307,27 @@ const Merger: React.FC = () => {
                                     <span>Merging...</span>
                                 </>
                             ) : (
-                                `Merge ${files.length} Files`
+                                `Merge ${items.length} Files`
                             )}
                         </button>
                     </div>
                 </>
             )}
 
-            {isProcessing && <p className="text-center text-teal-400 animate-pulse">{progressMessage}</p>}
+            {isProcessing && <ProgressBar progress={progress} onCancel={handleCancel} />}
             
             {processingState === ProcessingState.DONE && mergedAudioUrl && (
                  <div className="space-y-6">
                     <h2 className="text-2xl font-semibold text-center text-teal-300">Merge Complete</h2>
                     <AudioPlayer src={mergedAudioUrl} title="Merged Audio" />
+                    {conversions.length > 0 && (
+                        <div className="bg-gray-800/30 p-4 rounded-lg border border-gray-700/30 space-y-2">
+                            <p className="text-sm font-medium text-gray-300">Converted before merging:</p>
+                            <ul className="text-xs text-gray-400 space-y-1 max-h-40 overflow-y-auto">
+                                {conversions.map(conversion => <li key={conversion}>{conversion}</li>)}
+                            </ul>
+                        </div>
+                    )}
                     <div className="flex flex-col sm:flex-row gap-4">
                         <a
                             href={mergedAudioUrl}
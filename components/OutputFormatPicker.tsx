@@ -0,0 +1,146 @@
+import React from 'react';
+import { OutputFormat, OutputOptions } from '../types';
+import { LOUDNESS_TARGETS, OUTPUT_FORMATS, OUTPUT_SAMPLE_RATES, mp3BitratesFor, supportedMp3Bitrate } from '../services/outputFormats';
+import { TRUE_PEAK_CEILING_DB } from '../services/loudness';
+
+interface OutputFormatPickerProps {
+    options: OutputOptions;
+    onChange: (options: OutputOptions) => void;
+    disabled: boolean;
+    // Wording of the options that keep the source's channels and sample rate
+    sourceLabels?: { channels: string; sampleRate: string };
+}
+
+const DEFAULT_SOURCE_LABELS = { channels: 'Same as source', sampleRate: 'Same as source' };
+
+const selectClassName = "w-full bg-gray-700 text-gray-200 text-sm rounded-lg px-3 py-2 border border-gray-600 focus:outline-none focus:border-teal-500 disabled:opacity-50";
+
+const OutputFormatPicker: React.FC<OutputFormatPickerProps> = ({ options, onChange, disabled, sourceLabels = DEFAULT_SOURCE_LABELS }) => {
+    const isLossless = options.format !== OutputFormat.MP3;
+
+    const handleSampleRateChange = (value: string) => {
+        const sampleRate = value ? parseInt(value, 10) : null;
+        const mp3Bitrate = sampleRate !== null ? supportedMp3Bitrate(options.mp3Bitrate, sampleRate) : options.mp3Bitrate;
+        onChange({ ...options, sampleRate, mp3Bitrate });
+    };
+
+    return (
+        <div className="bg-gray-800/30 p-4 rounded-lg border border-gray-700/30 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+                <label htmlFor="output-format" className="block text-sm font-medium text-gray-300">
+                    Output Format
+                </label>
+                <select
+                    id="output-format"
+                    value={options.format}
+                    onChange={(e) => onChange({ ...options, format: e.target.value as OutputFormat })}
+                    disabled={disabled}
+                    className={selectClassName}
+                >
+                    {OUTPUT_FORMATS.map(format => (
+                        <option key={format.value} value={format.value}>{format.label}</option>
+                    ))}
+                </select>
+            </div>
+            {!isLossless && (
+                <div className="space-y-2">
+                    <label htmlFor="output-bitrate" className="block text-sm font-medium text-gray-300">
+                        Bitrate
+                    </label>
+                    <select
+                        id="output-bitrate"
+                        value={options.mp3Bitrate}
+                        onChange={(e) => onChange({ ...options, mp3Bitrate: parseInt(e.target.value, 10) })}
+                        disabled={disabled}
+                        className={selectClassName}
+                    >
+                        {mp3BitratesFor(options.sampleRate).map(bitrate => (
+                            <option key={bitrate} value={bitrate}>{bitrate} kbps (constant)</option>
+                        ))}
+                    </select>
+                    <p className="text-xs text-gray-500">
+                        Variable bitrate (VBR) is not available: the MP3 encoder only writes constant bitrate.
+                    </p>
+                </div>
+            )}
+            {isLossless && (
+                <div className="space-y-2">
+                    <label htmlFor="output-bit-depth" className="block text-sm font-medium text-gray-300">
+                        Bit Depth
+                    </label>
+                    <select
+                        id="output-bit-depth"
+                        value={options.bitDepth}
+                        onChange={(e) => onChange({ ...options, bitDepth: parseInt(e.target.value, 10) === 24 ? 24 : 16 })}
+                        disabled={disabled}
+                        className={selectClassName}
+                    >
+                        <option value={16}>16-bit</option>
+                        <option value={24}>24-bit</option>
+                    </select>
+                </div>
+            )}
+            <div className="space-y-2">
+                <label htmlFor="output-channels" className="block text-sm font-medium text-gray-300">
+                    Channels
+                </label>
+                <select
+                    id="output-channels"
+                    value={options.mono ? 'mono' : 'original'}
+                    onChange={(e) => onChange({ ...options, mono: e.target.value === 'mono' })}
+                    disabled={disabled}
+                    className={selectClassName}
+                >
+                    <option value="original">{sourceLabels.channels}</option>
+                    <option value="mono">Mono (mix all channels)</option>
+                </select>
+            </div>
+            <div className="space-y-2">
+                <label htmlFor="output-sample-rate" className="block text-sm font-medium text-gray-300">
+                    Sample Rate
+                </label>
+                <select
+                    id="output-sample-rate"
+                    value={options.sampleRate ?? ''}
+                    onChange={(e) => handleSampleRateChange(e.target.value)}
+                    disabled={disabled}
+                    className={selectClassName}
+                >
+                    <option value="">{sourceLabels.sampleRate}</option>
+                    {OUTPUT_SAMPLE_RATES.map(rate => (
+                        <option key={rate} value={rate}>{rate / 1000} kHz</option>
+                    ))}
+                </select>
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+                <label htmlFor="output-loudness" className="block text-sm font-medium text-gray-300">
+                    Loudness
+                </label>
+                <select
+                    id="output-loudness"
+                    value={options.loudnessTarget ?? ''}
+                    onChange={(e) => onChange({ ...options, loudnessTarget: e.target.value ? parseFloat(e.target.value) : null })}
+                    disabled={disabled}
+                    className={selectClassName}
+                >
+                    <option value="">Keep original levels</option>
+                    {LOUDNESS_TARGETS.map(target => (
+                        <option key={target.value} value={target.value}>Normalize to {target.label}</option>
+                    ))}
+                </select>
+                {options.loudnessTarget !== null && (
+                    <p className="text-xs text-gray-500">
+                        Measured per ITU-R BS.1770, with peaks limited to {TRUE_PEAK_CEILING_DB} dBTP.
+                    </p>
+                )}
+            </div>
+            <p className="text-xs text-gray-500 sm:col-span-2">
+                {isLossless
+                    ? 'Lossless output avoids re-encoding losses when the result is edited further.'
+                    : 'Compact files for listening. For spoken word, 64 kbps mono at 22.05 kHz is usually plenty.'}
+            </p>
+        </div>
+    );
+};
+
+export default OutputFormatPicker;
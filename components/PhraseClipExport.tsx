@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { parseTranscript } from '../services/subtitles';
+import { DownloadIcon, XIcon } from './icons';
+
+interface PhraseClipExportProps {
+    phraseCount: number;
+    paddingMs: number;
+    onPaddingChange: (paddingMs: number) => void;
+    ankiDeck: boolean;
+    onAnkiDeckChange: (ankiDeck: boolean) => void;
+    // Transcript lines paired with the phrases in order
+    transcript: string[] | null;
+    transcriptFileName: string;
+    onTranscriptChange: (lines: string[] | null, fileName: string) => void;
+    onExport: () => void;
+    disabled: boolean;
+}
+
+const PhraseClipExport: React.FC<PhraseClipExportProps> = ({
+    phraseCount,
+    paddingMs,
+    onPaddingChange,
+    ankiDeck,
+    onAnkiDeckChange,
+    transcript,
+    transcriptFileName,
+    onTranscriptChange,
+    onExport,
+    disabled,
+}) => {
+    const [transcriptError, setTranscriptError] = useState<string | null>(null);
+
+    const handleTranscriptChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selectedFile = e.target.files?.[0];
+        e.target.value = '';
+        if (!selectedFile) return;
+        try {
+            onTranscriptChange(parseTranscript(await selectedFile.text()), selectedFile.name);
+            setTranscriptError(null);
+        } catch (err) {
+            console.error(err);
+            setTranscriptError(err instanceof Error ? err.message : 'Could not read the transcript.');
+        }
+    };
+
+    return (
+        <div className="bg-gray-800/30 p-4 rounded-lg border border-gray-700/30 space-y-3">
+            <div className="flex justify-between items-center">
+                <label htmlFor="clip-padding" className="block text-sm font-medium text-gray-300">
+                    Phrase Files: Silence Padding
+                </label>
+                <span className="text-xs font-mono px-2 py-1 bg-gray-700 rounded">{paddingMs} ms</span>
+            </div>
+            <input
+                id="clip-padding"
+                type="range"
+                min={0}
+                max={2000}
+                step={50}
+                value={paddingMs}
+                onChange={(e) => onPaddingChange(parseFloat(e.target.value))}
+                disabled={disabled}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-teal-500 disabled:opacity-50"
+            />
+            <p className="text-xs text-gray-500">
+                Saves every phrase as its own numbered file in the output format above, in a ZIP with an index. Pre-roll, post-roll and fades apply as in the paced audio.
+            </p>
+
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                    type="checkbox"
+                    checked={ankiDeck}
+                    onChange={(e) => onAnkiDeckChange(e.target.checked)}
+                    disabled={disabled}
+                    className="accent-teal-500"
+                />
+                Include an Anki note file (anki_notes.txt)
+            </label>
+            {ankiDeck && (
+                <p className="text-xs text-gray-500">
+                    Copy the audio files into Anki's collection.media folder, then import anki_notes.txt with File &gt; Import.
+                </p>
+            )}
+
+            <div className="flex items-center gap-3">
+                {transcript ? (
+                    <div className="flex-grow flex items-center bg-gray-700/50 px-3 py-2 rounded-lg border border-gray-600/50 min-w-0">
+                        <span className="flex-grow text-sm text-gray-200 truncate" title={transcriptFileName}>{transcriptFileName}</span>
+                        <span className={`text-xs ml-3 shrink-0 ${transcript.length === phraseCount ? 'text-gray-400' : 'text-yellow-300'}`}>
+                            {transcript.length} lines / {phraseCount} phrases
+                        </span>
+                        <button
+                            onClick={() => onTranscriptChange(null, '')}
+                            disabled={disabled}
+                            className="ml-3 text-gray-500 hover:text-red-400 transition-colors"
+                            aria-label="Remove transcript"
+                        >
+                            <XIcon className="h-4 w-4" />
+                        </button>
+                    </div>
+                ) : (
+                    <>
+                        <label className={`text-xs font-semibold px-2 py-1 bg-gray-700 text-gray-200 rounded transition-colors shrink-0 ${disabled ? 'opacity-50 cursor-not-allowed' : 'hover:bg-gray-600 cursor-pointer'}`}>
+                            Load Transcript
+                            <input type="file" accept=".txt,text/plain" className="hidden" onChange={handleTranscriptChange} disabled={disabled} />
+                        </label>
+                        <span className="text-xs text-gray-500">Optional text file with one line per phrase, paired in order.</span>
+                    </>
+                )}
+            </div>
+            {transcriptError && <p className="text-xs text-red-300">{transcriptError}</p>}
+
+            <button
+                onClick={onExport}
+                disabled={disabled || phraseCount === 0}
+                className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-300"
+            >
+                <DownloadIcon className="h-5 w-5" />
+                Export {phraseCount} Phrase Files (ZIP)
+            </button>
+        </div>
+    );
+};
+
+export default PhraseClipExport;
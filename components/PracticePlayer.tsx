@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { SpeechChunk } from '../types';
+import { claimPlayback, playChunk, releasePlayback } from '../services/audioProcessor';
+import { PlayIcon, RotateCcwIcon, SkipBackIcon, SkipForwardIcon, SquareIcon } from './icons';
+
+interface PracticePlayerProps {
+    audioBuffer: AudioBuffer;
+    chunks: SpeechChunk[];
+    // Text of each phrase, shown while it plays
+    phraseTexts?: string[];
+}
+
+type LoopMode = 'off' | 'phrase' | 'range';
+type PlayerStatus = 'stopped' | 'playing' | 'waiting';
+
+// Time to speak after each phrase: seconds, or a multiple of the phrase length
+const PAUSE_OPTIONS: { value: string; label: string; seconds?: number; multiplier?: number }[] = [
+    { value: 'none', label: 'No pause', seconds: 0 },
+    { value: '1s', label: '1 second', seconds: 1 },
+    { value: '2s', label: '2 seconds', seconds: 2 },
+    { value: '3s', label: '3 seconds', seconds: 3 },
+    { value: '5s', label: '5 seconds', seconds: 5 },
+    { value: '1x', label: '1× phrase length', multiplier: 1 },
+    { value: '1.5x', label: '1.5× phrase length', multiplier: 1.5 },
+    { value: '2x', label: '2× phrase length', multiplier: 2 },
+];
+
+const selectClassName = "bg-gray-700 text-gray-200 text-xs rounded px-2 py-1 border border-gray-600 focus:outline-none focus:border-teal-500";
+
+const ControlButton: React.FC<{ title: string; onClick: () => void; disabled?: boolean; primary?: boolean; children: React.ReactNode }> = ({ title, onClick, disabled, primary, children }) => (
+    <button
+        title={title}
+        aria-label={title}
+        onClick={onClick}
+        disabled={disabled}
+        className={`flex items-center justify-center p-3 rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${primary ? 'bg-teal-600 text-white hover:bg-teal-500' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+    >
+        {children}
+    </button>
+);
+
+// Plays the original recording a phrase at a time, with pauses to repeat in,
+// straight from the detected chunks so nothing has to be rendered first.
+const PracticePlayer: React.FC<PracticePlayerProps> = ({ audioBuffer, chunks, phraseTexts }) => {
+    const [current, setCurrent] = useState(0);
+    const [status, setStatus] = useState<PlayerStatus>('stopped');
+    const [loop, setLoop] = useState<LoopMode>('off');
+    const [rangeStart, setRangeStart] = useState<number | null>(null);
+    const [rangeEnd, setRangeEnd] = useState<number | null>(null);
+    const [pauseOption, setPauseOption] = useState('1.5x');
+    const [autoAdvance, setAutoAdvance] = useState(true);
+
+    const stopPlayback = useRef<(() => void) | null>(null);
+    const pauseTimer = useRef<number | null>(null);
+    // Playback callbacks outlive the render that started them, so they go through this
+    const onPhraseEnded = useRef<(index: number) => void>(() => {});
+
+    const lastIndex = chunks.length - 1;
+    const hasRange = rangeStart !== null && rangeEnd !== null;
+    const [rangeFirst, rangeLast] = hasRange
+        ? [Math.min(rangeStart!, rangeEnd!), Math.max(rangeStart!, rangeEnd!)]
+        : [0, lastIndex];
+
+    const stop = useCallback(() => {
+        stopPlayback.current?.();
+        stopPlayback.current = null;
+        if (pauseTimer.current !== null) window.clearTimeout(pauseTimer.current);
+        pauseTimer.current = null;
+        setStatus('stopped');
+    }, []);
+
+    const play = useCallback((index: number) => {
+        stop();
+        if (index < 0 || index > lastIndex) return;
+        setCurrent(index);
+        setStatus('playing');
+        claimPlayback(stop);
+        stopPlayback.current = playChunk(audioBuffer, chunks[index], () => {
+            stopPlayback.current = null;
+            onPhraseEnded.current(index);
+        });
+    }, [audioBuffer, chunks, lastIndex, stop]);
+
+    onPhraseEnded.current = (index: number) => {
+        let next: number | null = null;
+        if (loop === 'phrase') {
+            next = index;
+        } else if (loop === 'range' && hasRange) {
+            next = index >= rangeLast || index < rangeFirst ? rangeFirst : index + 1;
+        } else if (autoAdvance && index < lastIndex) {
+            next = index + 1;
+        }
+        if (next === null) {
+            setStatus('stopped');
+            return;
+        }
+
+        const option = PAUSE_OPTIONS.find(o => o.value === pauseOption) ?? PAUSE_OPTIONS[0];
+        const phraseSeconds = (chunks[index].end - chunks[index].start) / audioBuffer.sampleRate;
+        const pauseSeconds = option.multiplier !== undefined ? phraseSeconds * option.multiplier : option.seconds ?? 0;
+        const nextIndex = next;
+        setStatus('waiting');
+        pauseTimer.current = window.setTimeout(() => {
+            pauseTimer.current = null;
+            play(nextIndex);
+        }, pauseSeconds * 1000);
+    };
+
+    // Indices shift when chunks are edited, so playback and marks start over
+    useEffect(() => {
+        stop();
+        setCurrent(prev => Math.min(prev, Math.max(0, chunks.length - 1)));
+        setRangeStart(null);
+        setRangeEnd(null);
+        setLoop(prev => (prev === 'range' ? 'off' : prev));
+    }, [chunks, stop]);
+
+    useEffect(() => () => {
+        stop();
+        releasePlayback(stop);
+    }, [stop]);
+
+    const togglePlay = useCallback(() => {
+        if (status === 'stopped') play(current);
+        else stop();
+    }, [status, current, play, stop]);
+
+    const toggleLoop = useCallback(() => setLoop(prev => (prev === 'phrase' ? 'off' : 'phrase')), []);
+
+    // Like the chunk editor's, the shortcuts only apply while the player has focus
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        const target = e.target as HTMLElement;
+        if (['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+        // A focused button already reacts to Space by clicking itself
+        if (e.key === ' ' && target.tagName === 'BUTTON') return;
+        if (e.ctrlKey || e.metaKey || e.altKey) return;
+        const actions: Record<string, () => void> = {
+            ' ': togglePlay,
+            ArrowRight: () => play(Math.min(lastIndex, current + 1)),
+            ArrowLeft: () => play(Math.max(0, current - 1)),
+            r: () => play(current),
+            l: toggleLoop,
+            a: () => setRangeStart(current),
+            b: () => setRangeEnd(current),
+        };
+        const action = actions[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+        if (!action) return;
+        e.preventDefault();
+        action();
+    };
+
+    if (chunks.length === 0) return null;
+
+    // The index is brought back in range after the render in which chunks shrink
+    const shown = Math.min(current, lastIndex);
+    const chunk = chunks[shown];
+    const text = phraseTexts?.[shown];
+    const statusLabel = status === 'playing' ? 'Playing' : status === 'waiting' ? 'Your turn' : 'Stopped';
+
+    return (
+        <div className="bg-gray-800/30 p-4 rounded-lg border border-gray-700/30 space-y-4 outline-none focus:border-teal-500/50" tabIndex={0} onKeyDown={handleKeyDown}>
+            <div className="flex justify-between items-center">
+                <h3 className="text-sm font-medium text-gray-300">Practice</h3>
+                <span className="text-xs text-gray-400">
+                    Phrase {shown + 1} of {chunks.length} · {((chunk.end - chunk.start) / audioBuffer.sampleRate).toFixed(1)}s ·{' '}
+                    <span className={status === 'waiting' ? 'text-yellow-300' : status === 'playing' ? 'text-teal-300' : ''}>{statusLabel}</span>
+                </span>
+            </div>
+
+            {text && (
+                <p className="text-center text-gray-100 bg-gray-900/50 rounded px-3 py-2 whitespace-pre-line">{text}</p>
+            )}
+
+            <div className="flex justify-center items-center gap-3">
+                <ControlButton title="Previous phrase (←)" onClick={() => play(current - 1)} disabled={current === 0}>
+                    <SkipBackIcon className="h-4 w-4" />
+                </ControlButton>
+                <ControlButton title={status === 'stopped' ? 'Play (Space)' : 'Stop (Space)'} onClick={togglePlay} primary>
+                    {status === 'stopped' ? <PlayIcon className="h-5 w-5" /> : <SquareIcon className="h-5 w-5" />}
+                </ControlButton>
+                <ControlButton title="Replay phrase (R)" onClick={() => play(current)}>
+                    <RotateCcwIcon className="h-4 w-4" />
+                </ControlButton>
+                <ControlButton title="Next phrase (→)" onClick={() => play(current + 1)} disabled={current === lastIndex}>
+                    <SkipForwardIcon className="h-4 w-4" />
+                </ControlButton>
+            </div>
+
+            <div className="flex flex-wrap justify-center items-center gap-x-4 gap-y-2 text-xs text-gray-300">
+                <label className="flex items-center gap-2">
+                    Loop
+                    <select value={loop} onChange={(e) => setLoop(e.target.value as LoopMode)} className={selectClassName}>
+                        <option value="off">Off</option>
+                        <option value="phrase">This phrase</option>
+                        <option value="range" disabled={!hasRange}>A–B range</option>
+                    </select>
+                </label>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => setRangeStart(current)} className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600 transition-colors">
+                        Set A{rangeStart !== null && `: ${rangeStart + 1}`}
+                    </button>
+                    <button onClick={() => setRangeEnd(current)} className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600 transition-colors">
+                        Set B{rangeEnd !== null && `: ${rangeEnd + 1}`}
+                    </button>
+                    {hasRange && (
+                        <button
+                            onClick={() => {
+                                setRangeStart(null);
+                                setRangeEnd(null);
+                                if (loop === 'range') setLoop('off');
+                            }}
+                            className="text-gray-500 hover:text-red-400 transition-colors"
+                        >
+                            Clear
+                        </button>
+                    )}
+                </div>
+                <label className="flex items-center gap-2">
+                    Pause after each phrase
+                    <select value={pauseOption} onChange={(e) => setPauseOption(e.target.value)} className={selectClassName}>
+                        {PAUSE_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={autoAdvance} onChange={(e) => setAutoAdvance(e.target.checked)} className="accent-teal-500" />
+                    Continue to the next phrase
+                </label>
+            </div>
+
+            <p className="text-xs text-gray-500 text-center">
+                Keys while the player is focused: Space play/stop · ← → previous/next · R replay · L loop phrase · A / B set range
+            </p>
+        </div>
+    );
+};
+
+export default PracticePlayer;
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Preset, Settings } from '../types';
+import {
+    BUILT_IN_PRESETS,
+    loadUserPresets,
+    parsePresetFile,
+    presetToJson,
+    settingsEqual,
+    storeUserPresets,
+} from '../services/presets';
+import { downloadBlob } from '../services/download';
+
+interface PresetPickerProps {
+    settings: Settings;
+    onApply: (settings: Settings) => void;
+    disabled: boolean;
+}
+
+const smallButtonClassName = "text-xs font-semibold px-2 py-1 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+const PresetPicker: React.FC<PresetPickerProps> = ({ settings, onApply, disabled }) => {
+    const [userPresets, setUserPresets] = useState<Preset[]>(loadUserPresets);
+    const [newName, setNewName] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const updateUserPresets = (presets: Preset[]) => {
+        setUserPresets(presets);
+        storeUserPresets(presets);
+    };
+
+    // User presets come first, so a saved copy wins over a built-in with the same values
+    const selected = [...userPresets, ...BUILT_IN_PRESETS].find(preset => settingsEqual(preset.settings, settings)) ?? null;
+    const selectedIsUserPreset = selected !== null && userPresets.includes(selected);
+    const selectedValue = selected ? `${selectedIsUserPreset ? 'user' : 'built-in'}:${selected.name}` : '';
+
+    const handleSelect = (value: string) => {
+        const [kind, ...nameParts] = value.split(':');
+        const name = nameParts.join(':');
+        const preset = (kind === 'user' ? userPresets : BUILT_IN_PRESETS).find(p => p.name === name);
+        if (preset) onApply(preset.settings);
+        setMessage(null);
+    };
+
+    // Saving under an existing name replaces that preset
+    const savePreset = (preset: Preset, presets: Preset[]) => [
+        ...presets.filter(p => p.name !== preset.name),
+        preset,
+    ].sort((a, b) => a.name.localeCompare(b.name));
+
+    const handleSave = () => {
+        const name = newName?.trim();
+        if (!name) return;
+        updateUserPresets(savePreset({ name, settings }, userPresets));
+        setNewName(null);
+        setMessage(`Saved preset "${name}".`);
+    };
+
+    const handleDelete = () => {
+        if (!selected || !selectedIsUserPreset) return;
+        updateUserPresets(userPresets.filter(preset => preset !== selected));
+        setMessage(`Deleted preset "${selected.name}".`);
+    };
+
+    const handleExport = () => {
+        const preset = selected ?? { name: 'Custom', settings };
+        const fileName = `${preset.name.replace(/[^\w\- ]+/g, '').trim() || 'preset'}.json`;
+        downloadBlob(new Blob([presetToJson(preset)], { type: 'application/json' }), fileName);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selectedFile = e.target.files?.[0];
+        e.target.value = '';
+        if (!selectedFile) return;
+        try {
+            const imported = parsePresetFile(await selectedFile.text());
+            let presets = userPresets;
+            for (const preset of imported) {
+                const clashesWithBuiltIn = BUILT_IN_PRESETS.some(p => p.name === preset.name);
+                presets = savePreset(clashesWithBuiltIn ? { ...preset, name: `${preset.name} (imported)` } : preset, presets);
+            }
+            updateUserPresets(presets);
+            onApply(imported[0].settings);
+            setMessage(imported.length === 1 ? `Imported preset "${imported[0].name}".` : `Imported ${imported.length} presets.`);
+        } catch (err) {
+            console.error(err);
+            setMessage(err instanceof Error ? err.message : 'Could not import the preset.');
+        }
+    };
+
+    return (
+        <div className="space-y-2 pb-2 border-b border-gray-700/50">
+            <label htmlFor="preset" className="block text-sm font-medium text-gray-300">
+                Preset
+            </label>
+            <select
+                id="preset"
+                value={selectedValue}
+                onChange={(e) => handleSelect(e.target.value)}
+                disabled={disabled}
+                className="w-full bg-gray-700 text-gray-200 text-sm rounded-lg px-3 py-2 border border-gray-600 focus:outline-none focus:border-teal-500 disabled:opacity-50"
+            >
+                {!selected && <option value="">Custom settings</option>}
+                {userPresets.length > 0 && (
+                    <optgroup label="My presets">
+                        {userPresets.map(preset => (
+                            <option key={preset.name} value={`user:${preset.name}`}>{preset.name}</option>
+                        ))}
+                    </optgroup>
+                )}
+                <optgroup label="Built-in">
+                    {BUILT_IN_PRESETS.map(preset => (
+                        <option key={preset.name} value={`built-in:${preset.name}`}>{preset.name}</option>
+                    ))}
+                </optgroup>
+            </select>
+            {newName !== null ? (
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleSave();
+                            if (e.key === 'Escape') setNewName(null);
+                        }}
+                        placeholder="Preset name"
+                        autoFocus
+                        className="flex-grow bg-gray-700 text-gray-200 text-sm rounded-lg px-3 py-1 border border-gray-600 focus:outline-none focus:border-teal-500"
+                    />
+                    <button onClick={handleSave} disabled={!newName.trim()} className={smallButtonClassName}>Save</button>
+                    <button onClick={() => setNewName(null)} className={smallButtonClassName}>Cancel</button>
+                </div>
+            ) : (
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={() => setNewName(selectedIsUserPreset ? selected!.name : '')} disabled={disabled} className={smallButtonClassName}>
+                        Save as Preset
+                    </button>
+                    <button onClick={handleDelete} disabled={disabled || !selectedIsUserPreset} className={smallButtonClassName}>
+                        Delete
+                    </button>
+                    <button onClick={handleExport} disabled={disabled} className={smallButtonClassName}>
+                        Export JSON
+                    </button>
+                    <label className={`${smallButtonClassName} ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                        Import JSON
+                        <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} disabled={disabled} />
+                    </label>
+                </div>
+            )}
+            {message && <p className="text-xs text-teal-200">{message}</p>}
+        </div>
+    );
+};
+
+export default PresetPicker;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { ProgressUpdate } from '../types';
+
+interface ProgressBarProps {
+    progress: ProgressUpdate | null;
+    onCancel?: () => void;
+}
+
+const ProgressBar: React.FC<ProgressBarProps> = ({ progress, onCancel }) => {
+    if (!progress) return null;
+
+    return (
+        <div className="space-y-2">
+            <div className="flex justify-between items-center text-sm">
+                <span className="text-teal-400">
+                    Step {progress.step}/{progress.totalSteps}: {progress.message}
+                </span>
+                <span className="font-mono text-xs text-gray-400">{progress.percent}%</span>
+            </div>
+            <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                    className="h-full bg-teal-500 transition-all duration-200"
+                    style={{ width: `${progress.percent}%` }}
+                />
+            </div>
+            {onCancel && (
+                <div className="flex justify-center pt-1">
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-1.5 text-sm font-medium text-gray-300 bg-gray-700 rounded-lg hover:bg-red-800 hover:text-white transition-colors duration-200"
+                    >
+                        Cancel
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ProgressBar;
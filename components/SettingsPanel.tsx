@@ -1,90 +1,418 @@
 import React from 'react';
-import { Settings } from '../types';
+import { CalibrationResult, PauseBasis, PauseMode, Settings } from '../types';
+import { RefreshCwIcon } from './icons';
+import PresetPicker from './PresetPicker';
 
 interface SettingsPanelProps {
     settings: Settings;
     onSettingsChange: (settings: Settings) => void;
     disabled: boolean;
+    onAutoCalibrate?: () => void;
+    isCalibrating?: boolean;
+    calibration?: CalibrationResult | null;
+    // Tempo and repetitions, for modes that play every phrase once as recorded
+    showSpeedAndRepetition?: boolean;
 }
 
-const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSettingsChange, disabled }) => {
-    
-    const handleThresholdChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        onSettingsChange({ ...settings, silenceThreshold: parseFloat(e.target.value) });
-    };
-    
-    const handleDurationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        onSettingsChange({ ...settings, minSilenceDuration: parseFloat(e.target.value) });
-    };
+interface SliderSettingProps {
+    id: string;
+    label: string;
+    value: number;
+    displayValue: string;
+    min: number;
+    max: number;
+    step: number;
+    onChange: (value: number) => void;
+    disabled: boolean;
+    description: string;
+    headerExtra?: React.ReactNode;
+    children?: React.ReactNode;
+}
+
+const SliderSetting: React.FC<SliderSettingProps> = ({
+    id, label, value, displayValue, min, max, step, onChange, disabled, description, headerExtra, children,
+}) => (
+    <div className="space-y-2">
+        <div className="flex justify-between items-center">
+            <label htmlFor={id} className="block text-sm font-medium text-gray-300">
+                {label}
+            </label>
+            <div className="flex items-center gap-2">
+                {headerExtra}
+                <span className="text-xs font-mono px-2 py-1 bg-gray-700 rounded">{displayValue}</span>
+            </div>
+        </div>
+        <input
+            id={id}
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            onChange={(e) => onChange(parseFloat(e.target.value))}
+            disabled={disabled}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-teal-500 disabled:opacity-50"
+        />
+        <p className="text-xs text-gray-500">{description}</p>
+        {children}
+    </div>
+);
 
-    const handleMultiplierChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        onSettingsChange({ ...settings, pauseMultiplier: parseFloat(e.target.value) });
+const PAUSE_MODE_OPTIONS: { value: PauseMode; label: string }[] = [
+    { value: PauseMode.MULTIPLIER, label: 'Multiple of phrase length' },
+    { value: PauseMode.MULTIPLIER_PLUS_OFFSET, label: 'Multiple of phrase length + fixed time' },
+    { value: PauseMode.CLAMPED_MULTIPLIER, label: 'Multiple of phrase length, within limits' },
+    { value: PauseMode.FIXED, label: 'Fixed length' },
+    { value: PauseMode.ORIGINAL_GAP_PLUS, label: 'Original gap + extra time' },
+];
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+    settings,
+    onSettingsChange,
+    disabled,
+    onAutoCalibrate,
+    isCalibrating = false,
+    calibration,
+    showSpeedAndRepetition = true,
+}) => {
+
+    const update = <K extends keyof Settings>(key: K) => (value: Settings[K]) => {
+        onSettingsChange({ ...settings, [key]: value });
     };
 
+    const { pauseMode } = settings;
+    const usesMultiplier = pauseMode === PauseMode.MULTIPLIER
+        || pauseMode === PauseMode.MULTIPLIER_PLUS_OFFSET
+        || pauseMode === PauseMode.CLAMPED_MULTIPLIER;
+    const usesPauseSeconds = pauseMode === PauseMode.FIXED
+        || pauseMode === PauseMode.MULTIPLIER_PLUS_OFFSET
+        || pauseMode === PauseMode.ORIGINAL_GAP_PLUS;
+
+    const pauseSecondsLabel = pauseMode === PauseMode.FIXED ? 'Pause Length' : 'Extra Pause';
+    const pauseSecondsDescription = pauseMode === PauseMode.FIXED
+        ? 'Every phrase is followed by a pause of this length.'
+        : pauseMode === PauseMode.ORIGINAL_GAP_PLUS
+            ? 'Added to the silence that followed the phrase in the original recording.'
+            : 'Added to every pause, so short phrases still get time for repetition.';
+
     return (
         <div className="space-y-4 bg-gray-800/30 p-4 rounded-lg border border-gray-700/30">
-            <div className="space-y-2">
-                <div className="flex justify-between items-center">
-                    <label htmlFor="silence-threshold" className="block text-sm font-medium text-gray-300">
-                        Silence Threshold
+            <PresetPicker settings={settings} onApply={onSettingsChange} disabled={disabled} />
+            <SliderSetting
+                id="noise-reduction"
+                label="Noise Reduction"
+                value={settings.noiseReduction}
+                displayValue={settings.noiseReduction === 0 ? 'Off' : `${settings.noiseReduction} dB`}
+                min={0}
+                max={24}
+                step={1}
+                onChange={update('noiseReduction')}
+                disabled={disabled}
+                description="Turns down steady background noise (tape hiss, hum, room noise) before speech is detected, learned from the quietest parts of the recording."
+            >
+                <div className="flex flex-col gap-1">
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={settings.denoiseOutput}
+                            onChange={(e) => update('denoiseOutput')(e.target.checked)}
+                            disabled={disabled || settings.noiseReduction === 0}
+                            className="accent-teal-500"
+                        />
+                        Reduce the noise in the output too
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={settings.noiseGate}
+                            onChange={(e) => update('noiseGate')(e.target.checked)}
+                            disabled={disabled}
+                            className="accent-teal-500"
+                        />
+                        Silence the noise between words, so it doesn't run into the pauses
                     </label>
-                    <span className="text-xs font-mono px-2 py-1 bg-gray-700 rounded">{settings.silenceThreshold.toFixed(3)}</span>
                 </div>
-                <input
-                    id="silence-threshold"
-                    type="range"
-                    min="0.001"
-                    max="0.1"
-                    step="0.001"
-                    value={settings.silenceThreshold}
-                    onChange={handleThresholdChange}
+            </SliderSetting>
+            <SliderSetting
+                id="silence-threshold"
+                label="Silence Threshold"
+                value={settings.silenceThreshold}
+                displayValue={`${settings.silenceThreshold.toFixed(3)} (${(20 * Math.log10(settings.silenceThreshold)).toFixed(0)} dB)`}
+                min={0.001}
+                max={0.1}
+                step={0.001}
+                onChange={update('silenceThreshold')}
+                disabled={disabled}
+                description="Level below which a 20 ms frame counts as silence. Lower for quieter audio, higher for noisy audio."
+                headerExtra={onAutoCalibrate && (
+                    <button
+                        onClick={onAutoCalibrate}
+                        disabled={disabled || isCalibrating}
+                        className="flex items-center gap-1 text-xs font-semibold px-2 py-1 bg-teal-700 text-white rounded hover:bg-teal-600 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {isCalibrating && <RefreshCwIcon className="animate-spin h-3 w-3" />}
+                        Auto
+                    </button>
+                )}
+            >
+                {calibration && (
+                    <div className="text-xs text-teal-200 bg-teal-900/30 border border-teal-800/50 rounded px-3 py-2">
+                        Estimated noise floor {calibration.noiseFloorDb.toFixed(0)} dB, speech level {calibration.speechLevelDb.toFixed(0)} dB.
+                        {' '}Expect about {calibration.expectedPhraseCount} phrase{calibration.expectedPhraseCount === 1 ? '' : 's'} with these settings.
+                    </div>
+                )}
+            </SliderSetting>
+            <SliderSetting
+                id="hysteresis"
+                label="Speech Start Margin"
+                value={settings.hysteresisDb}
+                displayValue={`+${settings.hysteresisDb.toFixed(0)} dB`}
+                min={0}
+                max={20}
+                step={1}
+                onChange={update('hysteresisDb')}
+                disabled={disabled}
+                description="How far above the silence threshold audio must rise to start a phrase. Raise it to ignore room noise and breaths."
+            />
+            <SliderSetting
+                id="min-silence-duration"
+                label="Minimum Silence Duration"
+                value={settings.minSilenceDuration}
+                displayValue={`${settings.minSilenceDuration.toFixed(2)}s`}
+                min={0.2}
+                max={2.0}
+                step={0.05}
+                onChange={update('minSilenceDuration')}
+                disabled={disabled}
+                description="How long a pause should be to count as a sentence break."
+            />
+            <SliderSetting
+                id="min-speech-duration"
+                label="Minimum Speech Duration"
+                value={settings.minSpeechDuration}
+                displayValue={`${settings.minSpeechDuration.toFixed(2)}s`}
+                min={0.02}
+                max={1.0}
+                step={0.01}
+                onChange={update('minSpeechDuration')}
+                disabled={disabled}
+                description="Shorter bursts of sound (clicks, coughs) are ignored."
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <SliderSetting
+                    id="min-chunk-duration"
+                    label="Shortest Phrase"
+                    value={settings.minChunkDuration}
+                    displayValue={settings.minChunkDuration === 0 ? 'Off' : `${settings.minChunkDuration.toFixed(1)}s`}
+                    min={0}
+                    max={3}
+                    step={0.1}
+                    onChange={(value) => onSettingsChange({
+                        ...settings,
+                        minChunkDuration: value,
+                        maxChunkDuration: settings.maxChunkDuration === 0 ? 0 : Math.max(settings.maxChunkDuration, 2 * value),
+                    })}
                     disabled={disabled}
-                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-teal-500 disabled:opacity-50"
+                    description="Shorter phrases join the nearest neighbour, or are dropped when nothing is near."
                 />
-                 <p className="text-xs text-gray-500">Lower for quieter audio, higher for noisy audio.</p>
-            </div>
-            <div className="space-y-2">
-                <div className="flex justify-between items-center">
-                    <label htmlFor="min-silence-duration" className="block text-sm font-medium text-gray-300">
-                        Minimum Silence Duration
-                    </label>
-                    <span className="text-xs font-mono px-2 py-1 bg-gray-700 rounded">{settings.minSilenceDuration.toFixed(2)}s</span>
-                </div>
-                <input
-                    id="min-silence-duration"
-                    type="range"
-                    min="0.2"
-                    max="2.0"
-                    step="0.05"
-                    value={settings.minSilenceDuration}
-                    onChange={handleDurationChange}
+                <SliderSetting
+                    id="max-chunk-duration"
+                    label="Longest Phrase"
+                    value={settings.maxChunkDuration}
+                    displayValue={settings.maxChunkDuration === 0 ? 'Off' : `${settings.maxChunkDuration.toFixed(0)}s`}
+                    min={0}
+                    max={30}
+                    step={1}
+                    onChange={update('maxChunkDuration')}
                     disabled={disabled}
-                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-teal-500 disabled:opacity-50"
+                    description="Longer phrases are split at their quietest point."
                 />
-                <p className="text-xs text-gray-500">How long a pause should be to count as a sentence break.</p>
             </div>
-             <div className="space-y-2">
-                <div className="flex justify-between items-center">
-                    <label htmlFor="pause-multiplier" className="block text-sm font-medium text-gray-300">
-                        Pause Multiplier
-                    </label>
-                    <span className="text-xs font-mono px-2 py-1 bg-gray-700 rounded">{settings.pauseMultiplier.toFixed(1)}x</span>
-                </div>
-                <input
+
+            <div className="space-y-2 pt-2 border-t border-gray-700/50">
+                <label htmlFor="pause-mode" className="block text-sm font-medium text-gray-300">
+                    Pause Strategy
+                </label>
+                <select
+                    id="pause-mode"
+                    value={pauseMode}
+                    onChange={(e) => update('pauseMode')(e.target.value as PauseMode)}
+                    disabled={disabled}
+                    className="w-full bg-gray-700 text-gray-200 text-sm rounded-lg px-3 py-2 border border-gray-600 focus:outline-none focus:border-teal-500 disabled:opacity-50"
+                >
+                    {PAUSE_MODE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </div>
+            {usesMultiplier && (
+                <SliderSetting
                     id="pause-multiplier"
-                    type="range"
-                    min="0.5"
-                    max="3.0"
-                    step="0.1"
+                    label="Pause Multiplier"
                     value={settings.pauseMultiplier}
-                    onChange={handleMultiplierChange}
+                    displayValue={`${settings.pauseMultiplier.toFixed(1)}x`}
+                    min={0.5}
+                    max={3.0}
+                    step={0.1}
+                    onChange={update('pauseMultiplier')}
                     disabled={disabled}
-                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-teal-500 disabled:opacity-50"
+                    description="How long the pause is relative to the speech (e.g., 1.5x)."
                 />
-                <p className="text-xs text-gray-500">How long the pause is relative to the speech (e.g., 1.5x).</p>
+            )}
+            {usesPauseSeconds && (
+                <SliderSetting
+                    id="pause-seconds"
+                    label={pauseSecondsLabel}
+                    value={settings.pauseSeconds}
+                    displayValue={`${settings.pauseSeconds.toFixed(1)}s`}
+                    min={0}
+                    max={10}
+                    step={0.1}
+                    onChange={update('pauseSeconds')}
+                    disabled={disabled}
+                    description={pauseSecondsDescription}
+                />
+            )}
+            {pauseMode === PauseMode.CLAMPED_MULTIPLIER && (
+                <>
+                    <SliderSetting
+                        id="min-pause-seconds"
+                        label="Shortest Pause"
+                        value={settings.minPauseSeconds}
+                        displayValue={`${settings.minPauseSeconds.toFixed(1)}s`}
+                        min={0}
+                        max={10}
+                        step={0.1}
+                        onChange={(value) => onSettingsChange({ ...settings, minPauseSeconds: value, maxPauseSeconds: Math.max(value, settings.maxPauseSeconds) })}
+                        disabled={disabled}
+                        description="Pauses after short phrases are never shorter than this."
+                    />
+                    <SliderSetting
+                        id="max-pause-seconds"
+                        label="Longest Pause"
+                        value={settings.maxPauseSeconds}
+                        displayValue={`${settings.maxPauseSeconds.toFixed(1)}s`}
+                        min={0.5}
+                        max={20}
+                        step={0.5}
+                        onChange={(value) => onSettingsChange({ ...settings, maxPauseSeconds: value, minPauseSeconds: Math.min(value, settings.minPauseSeconds) })}
+                        disabled={disabled}
+                        description="Pauses after long sentences are never longer than this."
+                    />
+                </>
+            )}
+
+            <div className="pt-2 border-t border-gray-700/50 space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <SliderSetting
+                        id="pre-roll"
+                        label="Pre-roll"
+                        value={settings.preRollMs}
+                        displayValue={`${settings.preRollMs} ms`}
+                        min={0}
+                        max={500}
+                        step={10}
+                        onChange={update('preRollMs')}
+                        disabled={disabled}
+                        description="Audio kept before each phrase so onsets aren't clipped."
+                    />
+                    <SliderSetting
+                        id="post-roll"
+                        label="Post-roll"
+                        value={settings.postRollMs}
+                        displayValue={`${settings.postRollMs} ms`}
+                        min={0}
+                        max={500}
+                        step={10}
+                        onChange={update('postRollMs')}
+                        disabled={disabled}
+                        description="Audio kept after each phrase for trailing sounds."
+                    />
+                    <SliderSetting
+                        id="fade-in"
+                        label="Fade In"
+                        value={settings.fadeInMs}
+                        displayValue={`${settings.fadeInMs} ms`}
+                        min={0}
+                        max={100}
+                        step={1}
+                        onChange={update('fadeInMs')}
+                        disabled={disabled}
+                        description="Ramp at the start of each phrase to avoid clicks."
+                    />
+                    <SliderSetting
+                        id="fade-out"
+                        label="Fade Out"
+                        value={settings.fadeOutMs}
+                        displayValue={`${settings.fadeOutMs} ms`}
+                        min={0}
+                        max={200}
+                        step={5}
+                        onChange={update('fadeOutMs')}
+                        disabled={disabled}
+                        description="Ramp into each inserted pause to avoid clicks."
+                    />
+                </div>
             </div>
+
+            {showSpeedAndRepetition && (
+                <div className="pt-2 border-t border-gray-700/50 space-y-4">
+                    <SliderSetting
+                        id="tempo"
+                        label="Tempo"
+                        value={settings.tempo}
+                        displayValue={settings.tempo === 1 ? 'Original' : `${Math.round(settings.tempo * 100)}%`}
+                        min={0.5}
+                        max={1.25}
+                        step={0.05}
+                        onChange={update('tempo')}
+                        disabled={disabled}
+                        description="Slows down (or speeds up) every phrase without changing its pitch. 70–90% suits beginners."
+                    >
+                        {settings.tempo !== 1 && usesMultiplier && (
+                            <div className="flex items-center justify-between gap-3">
+                                <label htmlFor="pause-basis" className="text-xs text-gray-400">Pauses follow</label>
+                                <select
+                                    id="pause-basis"
+                                    value={settings.pauseBasis}
+                                    onChange={(e) => update('pauseBasis')(e.target.value as PauseBasis)}
+                                    disabled={disabled}
+                                    className="bg-gray-700 text-gray-200 text-xs rounded px-2 py-1 border border-gray-600 focus:outline-none focus:border-teal-500 disabled:opacity-50"
+                                >
+                                    <option value={PauseBasis.STRETCHED}>the slowed-down phrase</option>
+                                    <option value={PauseBasis.ORIGINAL}>the phrase at original speed</option>
+                                </select>
+                            </div>
+                        )}
+                    </SliderSetting>
+                    <SliderSetting
+                        id="repeat-count"
+                        label="Repetitions"
+                        value={settings.repeatCount}
+                        displayValue={`${settings.repeatCount}x`}
+                        min={1}
+                        max={5}
+                        step={1}
+                        onChange={update('repeatCount')}
+                        disabled={disabled}
+                        description="How many times each phrase is played, each time followed by its own pause."
+                    />
+                    <SliderSetting
+                        id="final-repeat-rate"
+                        label="Extra Repetition Speed"
+                        value={settings.finalRepeatRate}
+                        displayValue={settings.finalRepeatRate === 1 ? 'Off' : `${settings.finalRepeatRate.toFixed(2)}x`}
+                        min={0.5}
+                        max={1.5}
+                        step={0.05}
+                        onChange={update('finalRepeatRate')}
+                        disabled={disabled}
+                        description="Adds one more repetition of each phrase played faster or slower (pitch changes with speed), ignoring the tempo above. 1.00x turns it off."
+                    />
+                </div>
+            )}
         </div>
     );
 };
 
-export default SettingsPanel;
\ No newline at end of file
+export default SettingsPanel;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { SubtitleCue, SubtitleTimingMode } from '../types';
+import { parseSubtitles } from '../services/subtitles';
+import { XIcon } from './icons';
+
+interface SubtitleImportProps {
+    cues: SubtitleCue[] | null;
+    fileName: string;
+    timingMode: SubtitleTimingMode;
+    onCuesChange: (cues: SubtitleCue[] | null, fileName: string) => void;
+    onTimingModeChange: (mode: SubtitleTimingMode) => void;
+    disabled: boolean;
+}
+
+const SubtitleImport: React.FC<SubtitleImportProps> = ({ cues, fileName, timingMode, onCuesChange, onTimingModeChange, disabled }) => {
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selectedFile = e.target.files?.[0];
+        e.target.value = '';
+        if (!selectedFile) return;
+        try {
+            onCuesChange(parseSubtitles(await selectedFile.text()), selectedFile.name);
+            setError(null);
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'Could not read the subtitle file.');
+        }
+    };
+
+    return (
+        <div className="bg-gray-800/30 p-4 rounded-lg border border-gray-700/30 space-y-3">
+            <div className="flex justify-between items-center">
+                <h3 className="text-sm font-medium text-gray-300">Subtitles (optional)</h3>
+                {!cues && (
+                    <label className={`text-xs font-semibold px-2 py-1 bg-gray-700 text-gray-200 rounded transition-colors ${disabled ? 'opacity-50 cursor-not-allowed' : 'hover:bg-gray-600 cursor-pointer'}`}>
+                        Load SRT / VTT
+                        <input type="file" accept=".srt,.vtt,text/vtt" className="hidden" onChange={handleFileChange} disabled={disabled} />
+                    </label>
+                )}
+            </div>
+            {cues ? (
+                <>
+                    <div className="flex items-center bg-gray-700/50 px-3 py-2 rounded-lg border border-gray-600/50">
+                        <span className="flex-grow text-sm text-gray-200 truncate" title={fileName}>{fileName}</span>
+                        <span className="text-xs text-gray-400 ml-3 shrink-0">{cues.length} cues</span>
+                        <button
+                            onClick={() => onCuesChange(null, '')}
+                            disabled={disabled}
+                            className="ml-3 text-gray-500 hover:text-red-400 transition-colors"
+                            aria-label="Remove subtitles"
+                        >
+                            <XIcon className="h-4 w-4" />
+                        </button>
+                    </div>
+                    <select
+                        aria-label="Subtitle timing"
+                        value={timingMode}
+                        onChange={(e) => onTimingModeChange(e.target.value as SubtitleTimingMode)}
+                        disabled={disabled}
+                        className="w-full bg-gray-700 text-gray-200 text-sm rounded-lg px-3 py-2 border border-gray-600 focus:outline-none focus:border-teal-500 disabled:opacity-50"
+                    >
+                        <option value={SubtitleTimingMode.EXACT}>Use the cue times as phrases</option>
+                        <option value={SubtitleTimingMode.REFINE}>Snap cue edges to detected speech</option>
+                    </select>
+                    <p className="text-xs text-gray-500">
+                        Phrases come from the subtitle cues instead of silence detection. Paced subtitles can be downloaded with the result.
+                    </p>
+                </>
+            ) : (
+                <p className="text-xs text-gray-500">Use existing subtitle timings as phrases and get subtitles that match the paced audio.</p>
+            )}
+            {error && <p className="text-xs text-red-300">{error}</p>}
+        </div>
+    );
+};
+
+export default SubtitleImport;
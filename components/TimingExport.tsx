@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { OutputFormat, TimingFormat } from '../types';
+import { PhraseTiming } from '../services/pacing';
+import { createTimingFile, TIMING_FORMATS, timingFileExtensionFor, TimingTimeline } from '../services/timingExport';
+import { downloadBlob } from '../services/download';
+import { DownloadIcon } from './icons';
+
+interface TimingExportProps {
+    timings: PhraseTiming[];
+    sampleRate: number;
+    // The rendered audio file the paced timeline refers to
+    audioFileName: string;
+    audioFormat: OutputFormat;
+    // Subtitle text per phrase, when subtitles were imported
+    phraseTexts?: string[];
+}
+
+const selectClassName = "w-full bg-gray-700 text-gray-200 text-sm rounded-lg px-3 py-2 border border-gray-600 focus:outline-none focus:border-teal-500";
+
+const TimingExport: React.FC<TimingExportProps> = ({ timings, sampleRate, audioFileName, audioFormat, phraseTexts }) => {
+    // With imported subtitles, re-timed subtitles are the most likely download
+    const [format, setFormat] = useState<TimingFormat>(phraseTexts ? TimingFormat.SRT : TimingFormat.AUDACITY);
+    const [timeline, setTimeline] = useState<TimingTimeline>('paced');
+
+    const handleDownload = () => {
+        const blob = createTimingFile(format, timings, { sampleRate, timeline, audioFileName, audioFormat, phraseTexts });
+        const baseName = audioFileName.replace(/\.[^.]+$/, '');
+        const suffix = format === TimingFormat.JSON || timeline === 'paced' ? '' : '_original';
+        downloadBlob(blob, `${baseName}${suffix}.${timingFileExtensionFor(format)}`);
+    };
+
+    return (
+        <div className="bg-gray-700/50 p-4 rounded-lg border border-gray-600/50 space-y-3">
+            <h3 className="text-sm font-medium text-gray-300">{phraseTexts ? 'Paced Subtitles and Timings' : 'Phrase Timings'}</h3>
+            <div className="flex flex-col sm:flex-row gap-3">
+                <select
+                    aria-label="Timing file format"
+                    value={format}
+                    onChange={(e) => setFormat(e.target.value as TimingFormat)}
+                    className={selectClassName}
+                >
+                    {TIMING_FORMATS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+                {format !== TimingFormat.JSON && (
+                    <select
+                        aria-label="Timeline"
+                        value={timeline}
+                        onChange={(e) => setTimeline(e.target.value as TimingTimeline)}
+                        className={selectClassName}
+                    >
+                        <option value="paced">Positions in the paced audio</option>
+                        <option value="original">Positions in the original audio</option>
+                    </select>
+                )}
+                <button
+                    onClick={handleDownload}
+                    className="flex items-center justify-center gap-2 px-4 py-2 bg-gray-600 text-white text-sm font-semibold rounded-lg hover:bg-gray-500 transition-colors shrink-0"
+                >
+                    <DownloadIcon className="h-4 w-4" />
+                    Download
+                </button>
+            </div>
+            <p className="text-xs text-gray-500">
+                {timings.length} phrases. The paced timeline lists every repetition separately.
+            </p>
+        </div>
+    );
+};
+
+export default TimingExport;
@@ -0,0 +1,67 @@
+// File types the decoder is known to handle
+const SUPPORTED_AUDIO_TYPES = ['audio/mpeg', 'audio/wav', 'audio/x-wav'];
+
+export function isSupportedAudioFile(file: File): boolean {
+    return SUPPORTED_AUDIO_TYPES.includes(file.type);
+}
+
+// Orders files the way a lesson folder is usually numbered: "2 - b.mp3" before "10 - a.mp3"
+export function sortByFileName(files: File[]): File[] {
+    return [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+}
+
+export function baseNameOf(fileName: string): string {
+    return fileName.split('.').slice(0, -1).join('.') || fileName;
+}
+
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+function readAscii(view: DataView, offset: number, length: number): string {
+    let text = '';
+    for (let i = 0; i < length && offset + i < view.byteLength; i++) text += String.fromCharCode(view.getUint8(offset + i));
+    return text;
+}
+
+function wavSampleRate(view: DataView): number | null {
+    let offset = 12;
+    while (offset + 16 <= view.byteLength) {
+        const size = view.getUint32(offset + 4, true);
+        if (readAscii(view, offset, 4) === 'fmt ') return view.getUint32(offset + 12, true);
+        offset += 8 + size + (size % 2);
+    }
+    return null;
+}
+
+// The first frame header after any ID3 tag
+function mp3SampleRate(view: DataView): number | null {
+    for (let offset = 0; offset + 4 <= view.byteLength; offset++) {
+        const b1 = view.getUint8(offset + 1);
+        const b2 = view.getUint8(offset + 2);
+        if (view.getUint8(offset) !== 0xFF || (b1 & 0xE0) !== 0xE0) continue;
+        const version = (b1 >> 3) & 3;
+        const layer = (b1 >> 1) & 3;
+        const bitrateIndex = b2 >> 4;
+        const rateIndex = (b2 >> 2) & 3;
+        if (version === 1 || layer === 0 || bitrateIndex === 15 || rateIndex === 3) continue;
+        // MPEG 1, 2 and 2.5 halve the rates in turn
+        const divisor = version === 3 ? 1 : version === 2 ? 2 : 4;
+        return MP3_SAMPLE_RATES[rateIndex] / divisor;
+    }
+    return null;
+}
+
+// Reads the sample rate stored in the file, which decoding hides by converting
+// to the AudioContext's rate. Null when the header isn't recognised.
+export async function readNativeSampleRate(file: File): Promise<number | null> {
+    const head = new DataView(await file.slice(0, 10).arrayBuffer());
+    if (readAscii(head, 0, 4) === 'RIFF') {
+        return wavSampleRate(new DataView(await file.slice(0, 4096).arrayBuffer()));
+    }
+    let offset = 0;
+    if (readAscii(head, 0, 3) === 'ID3' && head.byteLength === 10) {
+        const size = [6, 7, 8, 9].reduce((sum, index) => (sum << 7) | (head.getUint8(index) & 0x7F), 0);
+        const hasFooter = (head.getUint8(5) & 0x10) !== 0;
+        offset = 10 + size + (hasFooter ? 10 : 0);
+    }
+    return mp3SampleRate(new DataView(await file.slice(offset, offset + 4096).arrayBuffer()));
+}
@@ -1,210 +1,378 @@
-import { Settings, SpeechChunk } from '../types';
+import { FrameLevels, MergeItem, MergeResult, MergeTransition, OutputOptions, PhraseClipOptions, ProgressUpdate, RecordingPair, Settings, SpeechChunk } from '../types';
+import { SourceData, SourceInfo, WorkerRequest, WorkerResponse, WorkerStage } from './workerProtocol';
+import { readNativeSampleRate } from './audioFiles';
+import { DenoiseOptions } from './noiseReduction';
+
+export { detectSpeechChunks, calibrateSettings, getFrameLevels } from './speechDetection';
+export { calculateOutputLength, calculatePhraseTimings } from './pacing';
+export { denoiseOptionsFor } from './noiseReduction';
 
 // FIX: Cast window to any to allow for webkitAudioContext fallback for older browsers.
 const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
 
-async function decodeAudio(file: File): Promise<AudioBuffer> {
+// Decoding converts to the context's sample rate, so another rate needs a context of its own
+export async function decodeAudio(file: File, sampleRate?: number): Promise<AudioBuffer> {
     const arrayBuffer = await file.arrayBuffer();
-    return await audioContext.decodeAudioData(arrayBuffer);
+    const context = sampleRate && sampleRate !== audioContext.sampleRate
+        ? new OfflineAudioContext(1, 1, sampleRate)
+        : audioContext;
+    return await context.decodeAudioData(arrayBuffer);
 }
 
-function detectSpeechChunks(audioBuffer: AudioBuffer, settings: Settings): SpeechChunk[] {
-    const { silenceThreshold, minSilenceDuration } = settings;
-    const channelData = audioBuffer.getChannelData(0); // Use the first channel
-    const sampleRate = audioBuffer.sampleRate;
-    const minSilenceSamples = sampleRate * minSilenceDuration;
-
-    const chunks: SpeechChunk[] = [];
-    let speechStart = -1;
-
-    for (let i = 0; i < channelData.length; i++) {
-        if (Math.abs(channelData[i]) > silenceThreshold && speechStart < 0) {
-            speechStart = i;
-        }
-
-        if (Math.abs(channelData[i]) < silenceThreshold && speechStart >= 0) {
-            let silenceEnd = i;
-            let isSilenceLongEnough = true;
-            for (let j = i; j < i + minSilenceSamples && j < channelData.length; j++) {
-                if (Math.abs(channelData[j]) > silenceThreshold) {
-                    isSilenceLongEnough = false;
-                    i = j; // Skip forward to the next speech part
-                    break;
-                }
-            }
-
-            if (isSilenceLongEnough) {
-                chunks.push({ start: speechStart, end: i });
-                speechStart = -1;
-                i += minSilenceSamples; // Skip past the silence
-            }
-        }
+// Plays a single chunk of the decoded audio. Returns a function that stops playback.
+export function playChunk(audioBuffer: AudioBuffer, chunk: SpeechChunk, onEnded?: () => void): () => void {
+    if (audioContext.state === 'suspended') {
+        audioContext.resume();
     }
+    const source = audioContext.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(audioContext.destination);
+    if (onEnded) source.onended = onEnded;
+    source.start(0, chunk.start / audioBuffer.sampleRate, (chunk.end - chunk.start) / audioBuffer.sampleRate);
+    return () => {
+        source.onended = null;
+        source.stop();
+    };
+}
 
-    // Add the last chunk if the audio ends with speech
-    if (speechStart >= 0) {
-        chunks.push({ start: speechStart, end: channelData.length });
-    }
+// The review screen has more than one player. Each registers its stop function
+// when it starts playing, which stops the player that played before it.
+let stopActivePlayer: (() => void) | null = null;
 
-    return chunks;
+export function claimPlayback(stop: () => void) {
+    const previous = stopActivePlayer;
+    stopActivePlayer = stop;
+    if (previous && previous !== stop) previous();
 }
 
-function createPaddedAudio(originalBuffer: AudioBuffer, chunks: SpeechChunk[], settings: Settings): AudioBuffer {
-    const { numberOfChannels, sampleRate } = originalBuffer;
-    const { pauseMultiplier } = settings;
-    
-    let totalLength = 0;
-    for (const chunk of chunks) {
-        const chunkDuration = chunk.end - chunk.start;
-        // The new total length is the chunk itself plus the multiplied pause
-        totalLength += chunkDuration * (1 + pauseMultiplier); 
-    }
+// For players that go away, so they aren't stopped after unmounting
+export function releasePlayback(stop: () => void) {
+    if (stopActivePlayer === stop) stopActivePlayer = null;
+}
 
-    if (totalLength === 0) {
-        throw new Error("No speech detected in the audio file. Try adjusting the silence threshold.");
-    }
-    
-    // Use Math.ceil to ensure the buffer is large enough and we have an integer.
-    const newBuffer = audioContext.createBuffer(numberOfChannels, Math.ceil(totalLength), sampleRate);
-
-    let currentPosition = 0;
-    for (let channel = 0; channel < numberOfChannels; channel++) {
-        const originalData = originalBuffer.getChannelData(channel);
-        const newData = newBuffer.getChannelData(channel);
-        currentPosition = 0;
-        for (const chunk of chunks) {
-            const chunkDuration = chunk.end - chunk.start;
-            const chunkData = originalData.subarray(chunk.start, chunk.end);
-            
-            // Use Math.round on the position to avoid floating point errors
-            newData.set(chunkData, Math.round(currentPosition));
-            currentPosition += chunkDuration;
-            
-            // The silence is added by advancing the current position
-            // This now respects the multiplier from settings
-            currentPosition += chunkDuration * pauseMultiplier;
-        }
-    }
+export function isAbortError(err: unknown): boolean {
+    return err instanceof DOMException && err.name === 'AbortError';
+}
 
-    return newBuffer;
+function abortError(): DOMException {
+    return new DOMException('Processing was cancelled.', 'AbortError');
 }
 
-function encodeMp3(audioBuffer: AudioBuffer): Blob {
-    const lamejs = (window as any).lamejs;
-    if (typeof lamejs === 'undefined') {
-        throw new Error('lamejs library is not loaded. Please include it in your HTML.');
-    }
+function throwIfAborted(signal?: AbortSignal) {
+    if (signal?.aborted) throw abortError();
+}
 
-    const { numberOfChannels, sampleRate } = audioBuffer;
-    const mp3encoder = new lamejs.Mp3Encoder(numberOfChannels, sampleRate, 128); // 128 kbps
-    const mp3Data = [];
+function toSourceInfo(audioBuffer: AudioBuffer): SourceInfo {
+    const { sampleRate, length, numberOfChannels } = audioBuffer;
+    return { sampleRate, length, numberOfChannels };
+}
 
-    const convertBuffer = (buffer: Float32Array): Int16Array => {
-        const data = new Int16Array(buffer.length);
-        for (let i = 0; i < buffer.length; i++) {
-            data[i] = Math.max(-1, Math.min(1, buffer[i])) * 32767;
+// Maps the worker's stages onto numbered steps of the overall task
+type StageSteps = Partial<Record<WorkerStage, { step: number; message: string }>>;
+
+// Resolves with the encoded file, or for a 'detect' or 'levels' job with what it found
+function runWorkerJob<T extends Blob | SpeechChunk[] | FrameLevels = Blob>(
+    request: WorkerRequest,
+    sources: AudioBuffer[],
+    stageSteps: StageSteps,
+    totalSteps: number,
+    setProgress: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+): Promise<T> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
         }
-        return data;
-    };
 
-    const left = convertBuffer(audioBuffer.getChannelData(0));
-    const right = numberOfChannels > 1 ? convertBuffer(audioBuffer.getChannelData(1)) : undefined;
-
-    const sampleBlockSize = 1152;
-    for (let i = 0; i < left.length; i += sampleBlockSize) {
-        const leftChunk = left.subarray(i, i + sampleBlockSize);
-        let rightChunk;
-        if (right) {
-            rightChunk = right.subarray(i, i + sampleBlockSize);
-        }
+        const worker = new Worker(new URL('./audioWorker.ts', import.meta.url), { type: 'module' });
+
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', handleAbort);
+        };
+        const handleAbort = () => {
+            finish();
+            reject(abortError());
+        };
+        signal?.addEventListener('abort', handleAbort);
+
+        worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+            const message = event.data;
+            if (message.type === 'read') {
+                // Copies, so the AudioBuffer stays intact for previews on the main thread
+                const buffer = sources[message.source];
+                const channels: Float32Array[] = [];
+                for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+                    channels.push(buffer.getChannelData(channel).slice(message.start, message.end));
+                }
+                const data: SourceData = { type: 'data', requestId: message.requestId, channels };
+                worker.postMessage(data, channels.map(channel => channel.buffer));
+            } else if (message.type === 'progress') {
+                const stage = stageSteps[message.stage];
+                if (stage) {
+                    setProgress({ step: stage.step, totalSteps, message: stage.message, percent: message.percent });
+                }
+            } else if (message.type === 'done') {
+                finish();
+                resolve(message.blob as T);
+            } else if (message.type === 'detected') {
+                finish();
+                resolve(message.chunks as T);
+            } else if (message.type === 'levels') {
+                finish();
+                resolve(message.levels as T);
+            } else {
+                finish();
+                reject(new Error(message.message));
+            }
+        };
+        worker.onerror = (event) => {
+            finish();
+            reject(new Error(event.message || 'The audio processing worker failed to start.'));
+        };
+
+        worker.postMessage(request);
+    });
+}
 
-        const mp3buf = mp3encoder.encodeBuffer(leftChunk, rightChunk);
-        if (mp3buf.length > 0) {
-            mp3Data.push(mp3buf);
-        }
-    }
+export async function renderPacedAudio(
+    audioBuffer: AudioBuffer,
+    chunks: SpeechChunk[],
+    settings: Settings,
+    output: OutputOptions,
+    setProgress: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+): Promise<Blob> {
+    return runWorkerJob(
+        { type: 'pace', source: toSourceInfo(audioBuffer), chunks, settings, output },
+        [audioBuffer],
+        {
+            denoise: { step: 1, message: 'Learning the background noise...' },
+            measure: { step: 1, message: 'Measuring loudness...' },
+            render: { step: 1, message: `Rendering and encoding ${chunks.length} phrases...` },
+        },
+        1,
+        setProgress,
+        signal
+    );
+}
 
-    const mp3buf = mp3encoder.flush();
-    if (mp3buf.length > 0) {
-        mp3Data.push(mp3buf);
-    }
-    
-    return new Blob(mp3Data, { type: 'audio/mpeg' });
+// Every phrase as its own audio file, packaged in a ZIP with an index
+export async function exportPhraseClips(
+    audioBuffer: AudioBuffer,
+    chunks: SpeechChunk[],
+    settings: Settings,
+    output: OutputOptions,
+    clips: PhraseClipOptions,
+    setProgress: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+): Promise<Blob> {
+    return runWorkerJob(
+        { type: 'clips', source: toSourceInfo(audioBuffer), chunks, settings, output, clips },
+        [audioBuffer],
+        {
+            denoise: { step: 1, message: 'Learning the background noise...' },
+            measure: { step: 1, message: 'Measuring loudness...' },
+            render: { step: 1, message: `Encoding ${chunks.length} phrase files...` },
+        },
+        1,
+        setProgress,
+        signal
+    );
 }
 
+// Frame levels of the audio with its background noise reduced, for detecting
+// speech in. The noise-reduced audio itself stays in the worker.
+export async function measureNoiseReducedLevels(
+    audioBuffer: AudioBuffer,
+    options: DenoiseOptions,
+    setProgress: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+): Promise<FrameLevels> {
+    return runWorkerJob<FrameLevels>(
+        { type: 'levels', source: toSourceInfo(audioBuffer), options },
+        [audioBuffer],
+        { denoise: { step: 1, message: 'Reducing background noise...' } },
+        1,
+        setProgress,
+        signal
+    );
+}
 
 export async function processAudioFile(
     file: File,
     settings: Settings,
-    setProgress: (message: string) => void
+    output: OutputOptions,
+    setProgress: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
 ): Promise<Blob> {
-    setProgress('Step 1/4: Decoding audio...');
+    setProgress({ step: 1, totalSteps: 3, message: 'Decoding audio...', percent: 0 });
     const originalBuffer = await decodeAudio(file);
-
-    setProgress('Step 2/4: Analyzing for speech...');
-    const speechChunks = detectSpeechChunks(originalBuffer, settings);
-    
-    if (speechChunks.length === 0) {
-        throw new Error("Could not detect any speech. Please try adjusting the 'Silence Threshold' slider to be lower.");
-    }
-
-    setProgress(`Step 3/4: Reconstructing audio with pauses... (found ${speechChunks.length} phrases)`);
-    const newBuffer = createPaddedAudio(originalBuffer, speechChunks, settings);
-
-    setProgress('Step 4/4: Encoding final MP3 file...');
-    const mp3Blob = encodeMp3(newBuffer);
-    
-    return mp3Blob;
+    throwIfAborted(signal);
+
+    return runWorkerJob(
+        { type: 'pace', source: toSourceInfo(originalBuffer), chunks: null, settings, output },
+        [originalBuffer],
+        {
+            denoise: { step: 2, message: 'Learning the background noise...' },
+            detect: { step: 2, message: 'Analyzing for speech...' },
+            measure: { step: 3, message: 'Measuring loudness...' },
+            render: { step: 3, message: 'Rendering and encoding paced audio...' },
+        },
+        3,
+        setProgress,
+        signal
+    );
 }
 
+const formatRate = (sampleRate: number) => `${sampleRate / 1000} kHz`;
+const formatLayout = (numberOfChannels: number) =>
+    numberOfChannels === 1 ? 'mono' : numberOfChannels === 2 ? 'stereo' : `${numberOfChannels} channels`;
+
+// Inputs are converted to the output's sample rate and channel layout, or when
+// those match the source, to the highest rate and the most channels among them.
+// `transitions` has one entry per pair of neighbouring items.
 export async function mergeAudioFiles(
-    files: File[],
-    setProgress: (message: string) => void
-): Promise<Blob> {
-    if (files.length < 2) {
+    items: MergeItem[],
+    transitions: MergeTransition[],
+    output: OutputOptions,
+    setProgress: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+): Promise<MergeResult> {
+    if (items.length < 2) {
         throw new Error("At least two files are required to merge.");
     }
+    const files = items.map(item => item.file);
 
-    const totalSteps = files.length + 2;
-    setProgress(`Step 1/${totalSteps}: Decoding audio files...`);
+    const totalSteps = 2;
+    setProgress({ step: 1, totalSteps, message: 'Reading file headers...', percent: 0 });
+    const nativeRates = await Promise.all(files.map(readNativeSampleRate));
+    throwIfAborted(signal);
+    const sampleRate = output.sampleRate
+        ?? Math.max(...nativeRates.map(rate => rate ?? audioContext.sampleRate));
 
+    // Decoding needs an AudioContext, so it stays on the main thread
     const decodedBuffers: AudioBuffer[] = [];
     for (let i = 0; i < files.length; i++) {
-        setProgress(`Decoding ${i + 1}/${files.length}: ${files[i].name}...`);
-        const buffer = await decodeAudio(files[i]);
+        setProgress({
+            step: 1,
+            totalSteps,
+            message: `Decoding ${i + 1}/${files.length}: ${files[i].name}...`,
+            percent: Math.floor(i / files.length * 100),
+        });
+        const buffer = await decodeAudio(files[i], sampleRate);
+        throwIfAborted(signal);
+        const { trimStart, trimEnd } = items[i].clip;
+        if (trimStart + trimEnd >= buffer.duration) {
+            throw new Error(`Trimming removes all of "${files[i].name}" (${buffer.duration.toFixed(1)} s long).`);
+        }
         decodedBuffers.push(buffer);
     }
 
-    setProgress(`Step ${files.length + 1}/${totalSteps}: Validating audio properties...`);
-    await new Promise(resolve => setTimeout(resolve, 50)); // Short delay for UI update
-
-    const firstBuffer = decodedBuffers[0];
-    const { sampleRate, numberOfChannels } = firstBuffer;
+    const numberOfChannels = output.mono ? 1 : Math.max(...decodedBuffers.map(buffer => buffer.numberOfChannels));
+
+    const conversions = files.flatMap((file, i) => {
+        const fileRate = nativeRates[i] ?? decodedBuffers[i].sampleRate;
+        const fileChannels = decodedBuffers[i].numberOfChannels;
+        const changes: string[] = [];
+        if (fileRate !== sampleRate) changes.push(`${formatRate(fileRate)} → ${formatRate(sampleRate)}`);
+        if (fileChannels !== numberOfChannels) changes.push(`${formatLayout(fileChannels)} → ${formatLayout(numberOfChannels)}`);
+        return changes.length > 0 ? [`${file.name}: ${changes.join(', ')}`] : [];
+    });
+
+    const blob = await runWorkerJob(
+        {
+            type: 'merge',
+            sources: decodedBuffers.map(toSourceInfo),
+            clips: items.map(item => item.clip),
+            transitions,
+            target: { sampleRate, numberOfChannels },
+            output,
+        },
+        decodedBuffers,
+        {
+            measure: { step: 2, message: 'Measuring loudness of each file...' },
+            merge: { step: 2, message: 'Merging and encoding audio...' },
+        },
+        totalSteps,
+        setProgress,
+        signal
+    );
+    return { blob, conversions };
+}
 
-    let totalLength = 0;
-    for (const buffer of decodedBuffers) {
-        if (buffer.sampleRate !== sampleRate) {
-            throw new Error(`Mismatched sample rates. All files must have a sample rate of ${sampleRate} Hz.`);
-        }
-        if (buffer.numberOfChannels !== numberOfChannels) {
-            throw new Error(`Mismatched channel counts. All files must have ${numberOfChannels} channel(s).`);
-        }
-        totalLength += buffer.length;
+// Decodes two recordings of the same text at the higher of their sample rates,
+// so their phrases can be joined, and finds the phrases in each
+export async function analyzeRecordingPair(
+    files: [File, File],
+    settings: Settings,
+    setProgress: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+): Promise<RecordingPair> {
+    const totalSteps = 2;
+    setProgress({ step: 1, totalSteps, message: 'Reading file headers...', percent: 0 });
+    const nativeRates = await Promise.all(files.map(readNativeSampleRate));
+    throwIfAborted(signal);
+    const sampleRate = Math.max(...nativeRates.map(rate => rate ?? audioContext.sampleRate));
+
+    const buffers: AudioBuffer[] = [];
+    for (let i = 0; i < files.length; i++) {
+        setProgress({ step: 1, totalSteps, message: `Decoding ${files[i].name}...`, percent: i * 50 });
+        buffers.push(await decodeAudio(files[i], sampleRate));
+        throwIfAborted(signal);
     }
 
-    setProgress(`Step ${files.length + 2}/${totalSteps}: Merging audio...`);
-    await new Promise(resolve => setTimeout(resolve, 50)); // Short delay for UI update
-
-    const mergedBuffer = audioContext.createBuffer(numberOfChannels, totalLength, sampleRate);
-    let offset = 0;
-
-    for (const buffer of decodedBuffers) {
-        for (let channel = 0; channel < numberOfChannels; channel++) {
-            mergedBuffer.getChannelData(channel).set(buffer.getChannelData(channel), offset);
+    const chunks: SpeechChunk[][] = [];
+    for (let i = 0; i < files.length; i++) {
+        const name = files[i].name;
+        const detected = await runWorkerJob<SpeechChunk[]>(
+            { type: 'detect', source: toSourceInfo(buffers[i]), settings },
+            [buffers[i]],
+            {
+                denoise: { step: 2, message: `${name}: Learning the background noise...` },
+                detect: { step: 2, message: `Analyzing ${name} for speech...` },
+            },
+            totalSteps,
+            setProgress,
+            signal
+        );
+        if (detected.length === 0) {
+            throw new Error(`Could not detect any speech in "${name}". Please try adjusting the 'Silence Threshold' slider to be lower.`);
         }
-        offset += buffer.length;
+        chunks.push(detected);
     }
-    
-    const mp3Blob = encodeMp3(mergedBuffer);
-    return mp3Blob;
-}
\ No newline at end of file
+    return { buffers: [buffers[0], buffers[1]], chunks: [chunks[0], chunks[1]] };
+}
+
+// Phrase i of every recording in turn, each followed by its pause. `buffers`
+// share a sample rate and come in the order their phrases are played; each has
+// as many chunks as the others.
+export async function renderInterleavedAudio(
+    buffers: AudioBuffer[],
+    chunks: SpeechChunk[][],
+    settings: Settings,
+    output: OutputOptions,
+    setProgress: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+): Promise<Blob> {
+    return runWorkerJob(
+        {
+            type: 'interleave',
+            sources: buffers.map(toSourceInfo),
+            chunks,
+            settings,
+            numberOfChannels: Math.max(...buffers.map(buffer => buffer.numberOfChannels)),
+            output,
+        },
+        buffers,
+        {
+            denoise: { step: 1, message: 'Learning the background noise...' },
+            measure: { step: 1, message: 'Measuring loudness...' },
+            render: { step: 1, message: `Rendering and encoding ${chunks[0].length} phrase pairs...` },
+        },
+        1,
+        setProgress,
+        signal
+    );
+}
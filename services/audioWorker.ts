@@ -0,0 +1,270 @@
+import { AudioSource, FrameLevels, OutputOptions, Settings, SpeechChunk } from '../types';
+import { SourceData, SourceInfo, WorkerRequest, WorkerResponse, WorkerStage } from './workerProtocol';
+import { detectSpeechChunksInSource, measureFrameLevels } from './speechDetection';
+import { renderPhraseClips, streamInterleavedAudio, streamPacedAudio } from './pacing';
+import { createEncoder, createOutputLoudnessMeter } from './encoders';
+import { streamMergedAudio, streamTrimmedSource } from './merging';
+import { normalizationGain } from './loudness';
+import { DenoiseOptions, createDenoisedSource, denoiseOptionsFor, learnNoiseProfile } from './noiseReduction';
+import { SampleSink, createBlockWriter } from './sampleStream';
+import { createZipWriter } from './zipWriter';
+import { fileExtensionFor } from './outputFormats';
+
+// Output is encoded in blocks of this many samples per channel
+const BLOCK_SIZE = 1152 * 64;
+// Share of the 'levels' job's progress spent learning the noise
+const NOISE_LEARNING_SHARE = 0.2;
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+// Reports progress of a stage, but only when the whole percentage changes
+function progressReporter(stage: WorkerStage): (fraction: number) => void {
+    let lastPercent = -1;
+    return (fraction: number) => {
+        const percent = Math.floor(fraction * 100);
+        if (percent !== lastPercent) {
+            lastPercent = percent;
+            post({ type: 'progress', stage, percent });
+        }
+    };
+}
+
+const pendingReads = new Map<number, (channels: Float32Array[]) => void>();
+let nextRequestId = 0;
+
+// Audio that lives on the main thread and is fetched a range at a time
+function createRemoteSource(index: number, info: SourceInfo): AudioSource {
+    return {
+        ...info,
+        read: (start: number, end: number) => new Promise(resolve => {
+            const requestId = nextRequestId++;
+            pendingReads.set(requestId, resolve);
+            post({ type: 'read', requestId, source: index, start, end });
+        }),
+    };
+}
+
+// Renders once just to measure, for the gain that brings the output to the
+// loudness target. 1 when normalization is off.
+async function measureGain(
+    output: OutputOptions,
+    numberOfChannels: number,
+    sampleRate: number,
+    render: (sink: SampleSink, onProgress: (fraction: number) => void) => Promise<void>
+): Promise<number> {
+    if (output.loudnessTarget === null) return 1;
+    const meter = createOutputLoudnessMeter(output, numberOfChannels, sampleRate);
+    await render(meter, progressReporter('measure'));
+    return normalizationGain(meter.integratedLoudness(), output.loudnessTarget);
+}
+
+// The source as detection and output should hear it. The noise is learned
+// once, and only when one of them reduces it.
+async function noiseReducedSources(source: AudioSource, settings: Settings, detect: boolean) {
+    const detection = detect ? denoiseOptionsFor(settings, 'detection') : null;
+    const output = denoiseOptionsFor(settings, 'output');
+    const profile = detection || output ? await learnNoiseProfile(source, progressReporter('denoise')) : null;
+    const reduced = (options: DenoiseOptions | null) => (profile && options ? createDenoisedSource(source, profile, options) : source);
+    return { detectionSource: reduced(detection), outputSource: reduced(output) };
+}
+
+async function pace(request: Extract<WorkerRequest, { type: 'pace' }>): Promise<Blob> {
+    const { detectionSource, outputSource: source } = await noiseReducedSources(
+        createRemoteSource(0, request.source),
+        request.settings,
+        request.chunks === null
+    );
+
+    let chunks = request.chunks;
+    if (!chunks) {
+        chunks = await detectSpeechChunksInSource(detectionSource, request.settings, progressReporter('detect'));
+        if (chunks.length === 0) {
+            throw new Error("Could not detect any speech. Please try adjusting the 'Silence Threshold' slider to be lower.");
+        }
+    }
+
+    const render = (sink: SampleSink, onProgress: (fraction: number) => void) =>
+        streamPacedAudio(source, chunks!, request.settings, sink, onProgress);
+    const gain = await measureGain(request.output, source.numberOfChannels, source.sampleRate, render);
+
+    const encoder = createEncoder(request.output, source.numberOfChannels, source.sampleRate, gain);
+    const writer = createBlockWriter(source.numberOfChannels, BLOCK_SIZE, block => encoder.encode(block));
+    await render(writer, progressReporter('render'));
+    writer.flush();
+    return encoder.finish();
+}
+
+// A value for the CSV index, quoted when needed
+function csvField(value: string | number): string {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Anki's text import: tab-separated fields, with a header describing the file
+function ankiNoteFile(rows: { fileName: string; text: string }[]): string {
+    const escapeHtml = (text: string) => text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/\t/g, ' ')
+        .replace(/\n/g, '<br>');
+    const lines = ['#separator:tab', '#html:true', '#columns:Audio\tText'];
+    for (const row of rows) {
+        lines.push(`[sound:${row.fileName}]\t${escapeHtml(row.text)}`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+async function clips(request: Extract<WorkerRequest, { type: 'clips' }>): Promise<Blob> {
+    const { outputSource: source } = await noiseReducedSources(createRemoteSource(0, request.source), request.settings, false);
+    const { chunks, output, clips: options } = request;
+    const zip = createZipWriter();
+    const digits = Math.max(3, String(chunks.length).length);
+    const extension = fileExtensionFor(output.format);
+    const paddingLength = Math.round(options.paddingMs / 1000 * source.sampleRate);
+    const seconds = (samples: number) => (samples / source.sampleRate).toFixed(3);
+
+    const index = [['file', 'phrase', 'start', 'end', 'duration', ...(options.texts ? ['text'] : [])].join(',')];
+    const notes: { fileName: string; text: string }[] = [];
+    // Every clip gets the same gain, so phrases keep their levels relative to each other
+    const gain = await measureGain(output, source.numberOfChannels, source.sampleRate, (sink, onProgress) =>
+        renderPhraseClips(source, chunks, request.settings, paddingLength, async (_, channels) => sink.write(channels), onProgress)
+    );
+    await renderPhraseClips(source, chunks, request.settings, paddingLength, async (phrase, channels) => {
+        const encoder = createEncoder(output, channels.length, source.sampleRate, gain);
+        encoder.encode(channels);
+        const blob = encoder.finish();
+        const fileName = `${options.baseName}_${String(phrase + 1).padStart(digits, '0')}.${extension}`;
+        zip.addFile(fileName, new Uint8Array(await blob.arrayBuffer()));
+
+        const chunk = chunks[phrase];
+        const row: (string | number)[] = [fileName, phrase + 1, seconds(chunk.start), seconds(chunk.end), seconds(chunk.end - chunk.start)];
+        if (options.texts) row.push(options.texts[phrase] ?? '');
+        index.push(row.map(csvField).join(','));
+        notes.push({ fileName, text: options.texts?.[phrase] ?? '' });
+    }, progressReporter('render'));
+
+    zip.addFile('index.csv', index.join('\n') + '\n');
+    if (options.ankiDeck) {
+        zip.addFile('anki_notes.txt', ankiNoteFile(notes));
+    }
+    return zip.finish();
+}
+
+async function merge(request: Extract<WorkerRequest, { type: 'merge' }>): Promise<Blob> {
+    const sources = request.sources.map((info, index) => createRemoteSource(index, info));
+    const { sampleRate, numberOfChannels } = request.target;
+
+    const { output } = request;
+
+    // Files are normalized one by one, so each arrives at the target on its own
+    let clips = request.clips;
+    if (output.loudnessTarget !== null) {
+        const reportMeasure = progressReporter('measure');
+        clips = [];
+        for (let index = 0; index < sources.length; index++) {
+            const clip = request.clips[index];
+            if (!clip.normalize) {
+                clips.push(clip);
+                continue;
+            }
+            const meter = createOutputLoudnessMeter(output, numberOfChannels, sources[index].sampleRate);
+            await streamTrimmedSource(sources[index], clip, numberOfChannels, meter, fraction => reportMeasure((index + fraction) / sources.length));
+            const gain = normalizationGain(meter.integratedLoudness(), output.loudnessTarget);
+            clips.push({ ...clip, gainDb: clip.gainDb + 20 * Math.log10(gain) });
+        }
+    }
+
+    const encoder = createEncoder(output, numberOfChannels, sampleRate);
+    const writer = createBlockWriter(numberOfChannels, BLOCK_SIZE, block => encoder.encode(block));
+    await streamMergedAudio(sources, clips, request.transitions, request.target, writer, progressReporter('merge'));
+    writer.flush();
+    return encoder.finish();
+}
+
+async function interleave(request: Extract<WorkerRequest, { type: 'interleave' }>): Promise<Blob> {
+    const sources: AudioSource[] = [];
+    for (let index = 0; index < request.sources.length; index++) {
+        const { outputSource } = await noiseReducedSources(createRemoteSource(index, request.sources[index]), request.settings, false);
+        sources.push(outputSource);
+    }
+    const { numberOfChannels, output } = request;
+    const { sampleRate } = sources[0];
+
+    const render = (sink: SampleSink, onProgress: (fraction: number) => void) =>
+        streamInterleavedAudio(sources, request.chunks, request.settings, numberOfChannels, sink, onProgress);
+    const gain = await measureGain(output, numberOfChannels, sampleRate, render);
+
+    const encoder = createEncoder(output, numberOfChannels, sampleRate, gain);
+    const writer = createBlockWriter(numberOfChannels, BLOCK_SIZE, block => encoder.encode(block));
+    await render(writer, progressReporter('render'));
+    writer.flush();
+    return encoder.finish();
+}
+
+// Reduces the noise in the source as `options` say, once the noise is learned.
+// The source itself when noise reduction is off or no noise could be learned.
+async function learnAndReduceNoise(source: AudioSource, options: DenoiseOptions | null, onProgress: (fraction: number) => void) {
+    const profile = options ? await learnNoiseProfile(source, onProgress) : null;
+    return profile && options ? createDenoisedSource(source, profile, options) : source;
+}
+
+async function detect(request: Extract<WorkerRequest, { type: 'detect' }>): Promise<SpeechChunk[]> {
+    const { settings } = request;
+    const source = await learnAndReduceNoise(
+        createRemoteSource(0, request.source),
+        denoiseOptionsFor(settings, 'detection'),
+        progressReporter('denoise')
+    );
+    return detectSpeechChunksInSource(source, settings, progressReporter('detect'));
+}
+
+async function levels(request: Extract<WorkerRequest, { type: 'levels' }>): Promise<FrameLevels> {
+    const reportProgress = progressReporter('denoise');
+    const source = await learnAndReduceNoise(
+        createRemoteSource(0, request.source),
+        request.options,
+        fraction => reportProgress(fraction * NOISE_LEARNING_SHARE)
+    );
+    return measureFrameLevels(source, fraction => reportProgress(NOISE_LEARNING_SHARE + (1 - NOISE_LEARNING_SHARE) * fraction));
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest | SourceData>) => {
+    const message = event.data;
+    if (message.type === 'data') {
+        const resolve = pendingReads.get(message.requestId);
+        pendingReads.delete(message.requestId);
+        resolve?.(message.channels);
+        return;
+    }
+
+    try {
+        if (message.type === 'detect') {
+            post({ type: 'detected', chunks: await detect(message) });
+            return;
+        }
+        if (message.type === 'levels') {
+            const result = await levels(message);
+            post({ type: 'levels', levels: result }, [result.levels.buffer]);
+            return;
+        }
+        let blob: Blob;
+        switch (message.type) {
+            case 'pace':
+                blob = await pace(message);
+                break;
+            case 'clips':
+                blob = await clips(message);
+                break;
+            case 'interleave':
+                blob = await interleave(message);
+                break;
+            default:
+                blob = await merge(message);
+        }
+        post({ type: 'done', blob });
+    } catch (err) {
+        console.error(err);
+        post({ type: 'error', message: err instanceof Error ? err.message : 'An unknown error occurred during processing.' });
+    }
+};
@@ -0,0 +1,26 @@
+// A single channel is returned as it is, not copied
+export function averageChannels(channels: Float32Array[]): Float32Array {
+    if (channels.length === 1) return channels[0];
+    const mixed = new Float32Array(channels[0].length);
+    for (const channel of channels) {
+        for (let i = 0; i < mixed.length; i++) mixed[i] += channel[i];
+    }
+    for (let i = 0; i < mixed.length; i++) mixed[i] /= channels.length;
+    return mixed;
+}
+
+// Converts a block to another channel count. Mono is copied to every channel;
+// other upmixes keep the existing channels and add silent ones. Downmixes
+// average each channel into output channel (index % count), so mono averages
+// everything and stereo takes the even-numbered channels left, odd right.
+export function mixChannels(block: Float32Array[], numberOfChannels: number): Float32Array[] {
+    if (block.length === numberOfChannels) return block;
+    if (block.length === 1) return Array.from({ length: numberOfChannels }, () => block[0]);
+    if (block.length < numberOfChannels) {
+        const silence = Array.from({ length: numberOfChannels - block.length }, () => new Float32Array(block[0].length));
+        return [...block, ...silence];
+    }
+    return Array.from({ length: numberOfChannels }, (_, output) =>
+        averageChannels(block.filter((_, channel) => channel % numberOfChannels === output))
+    );
+}
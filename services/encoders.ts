@@ -0,0 +1,78 @@
+import { OutputFormat, OutputOptions } from '../types';
+import { StreamingEncoder } from './sampleStream';
+import { createMp3Encoder } from './mp3Encoder';
+import { supportedMp3Bitrate } from './outputFormats';
+import { createWavEncoder } from './wavEncoder';
+import { createFlacEncoder } from './flacEncoder';
+import { createStreamingResampler } from './resampler';
+import { mixChannels } from './channelMixing';
+import { createLoudnessMeter, createTruePeakLimiter } from './loudness';
+
+function createFormatEncoder(options: OutputOptions, numberOfChannels: number, sampleRate: number): StreamingEncoder {
+    switch (options.format) {
+        case OutputFormat.WAV:
+            return createWavEncoder(numberOfChannels, sampleRate, options.bitDepth);
+        case OutputFormat.FLAC:
+            return createFlacEncoder(numberOfChannels, sampleRate, options.bitDepth);
+        case OutputFormat.MP3:
+        default:
+            // Also covers output at the source's rate, which the picker can't limit the bitrates for
+            return createMp3Encoder(numberOfChannels, sampleRate, supportedMp3Bitrate(options.mp3Bitrate, sampleRate));
+    }
+}
+
+function outputChannelCount(options: OutputOptions, numberOfChannels: number): number {
+    if (options.mono) return 1;
+    return options.format === OutputFormat.MP3 ? Math.min(2, numberOfChannels) : numberOfChannels;
+}
+
+// Measures the loudness of what createEncoder would write, before any gain,
+// since mixing down to fewer channels changes it
+export function createOutputLoudnessMeter(options: OutputOptions, numberOfChannels: number, sampleRate: number) {
+    const outputChannels = outputChannelCount(options, numberOfChannels);
+    const meter = createLoudnessMeter(outputChannels, sampleRate);
+    return {
+        ...meter,
+        write: (block: Float32Array[]) => meter.write(mixChannels(block, outputChannels)),
+    };
+}
+
+// Wraps the encoder for the chosen format with channel mixing, sample rate
+// conversion and, when normalizing loudness, the gain and a true-peak limiter
+export function createEncoder(
+    options: OutputOptions,
+    numberOfChannels: number,
+    sampleRate: number,
+    gain = 1
+): StreamingEncoder {
+    const outputChannels = outputChannelCount(options, numberOfChannels);
+    const outputRate = options.sampleRate ?? sampleRate;
+
+    const encoder = createFormatEncoder(options, outputChannels, outputRate);
+    const resampler = outputRate !== sampleRate ? createStreamingResampler(outputChannels, sampleRate, outputRate) : null;
+    const limiter = options.loudnessTarget !== null ? createTruePeakLimiter(outputChannels, outputRate, gain) : null;
+
+    const encodeBlock = (block: Float32Array[]) => {
+        const limited = limiter ? limiter.process(block) : block;
+        if (limited[0].length > 0) encoder.encode(limited);
+    };
+
+    return {
+        encode(block: Float32Array[]) {
+            const mixed = mixChannels(block, outputChannels);
+            const converted = resampler ? resampler.process(mixed) : mixed;
+            if (converted[0].length > 0) encodeBlock(converted);
+        },
+        finish() {
+            if (resampler) {
+                const rest = resampler.flush();
+                if (rest[0].length > 0) encodeBlock(rest);
+            }
+            if (limiter) {
+                const rest = limiter.flush();
+                if (rest[0].length > 0) encoder.encode(rest);
+            }
+            return encoder.finish();
+        },
+    };
+}
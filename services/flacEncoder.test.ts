@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { createFlacEncoder } from './flacEncoder';
+
+// Just enough of a FLAC decoder to read back what the encoder writes: fixed-size
+// frames of constant, verbatim and fixed-predictor subframes. Checksums are verified.
+
+function createBitReader(bytes: Uint8Array, start: number) {
+    let position = start * 8;
+    const readBit = () => (bytes[position >> 3] >> (7 - (position++ & 7))) & 1;
+    const readBits = (count: number) => {
+        let value = 0;
+        for (let i = 0; i < count; i++) value = value * 2 + readBit();
+        return value;
+    };
+    return {
+        readBits,
+        readSigned(count: number) {
+            const value = readBits(count);
+            return value >= 2 ** (count - 1) ? value - 2 ** count : value;
+        },
+        readUnary() {
+            let zeros = 0;
+            while (readBit() === 0) zeros++;
+            return zeros;
+        },
+        alignToByte() {
+            position = Math.ceil(position / 8) * 8;
+        },
+        get byteOffset() {
+            return position >> 3;
+        },
+    };
+}
+
+type BitReader = ReturnType<typeof createBitReader>;
+
+function crc(bytes: Uint8Array, bits: number, polynomial: number): number {
+    const mask = (1 << bits) - 1;
+    let value = 0;
+    for (const byte of bytes) {
+        value ^= byte << (bits - 8);
+        for (let bit = 0; bit < 8; bit++) {
+            value = value & (1 << (bits - 1)) ? (value << 1) ^ polynomial : value << 1;
+        }
+        value &= mask;
+    }
+    return value;
+}
+
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+function readSubframe(reader: BitReader, length: number, bitsPerSample: number): number[] {
+    expect(reader.readBits(1)).toBe(0);
+    const type = reader.readBits(6);
+    expect(reader.readBits(1)).toBe(0); // No wasted bits
+    if (type === 0) {
+        return new Array(length).fill(reader.readSigned(bitsPerSample));
+    }
+    if (type === 1) {
+        return Array.from({ length }, () => reader.readSigned(bitsPerSample));
+    }
+    expect(type & 0b111000).toBe(0b001000);
+    const order = type & 0b111;
+    const samples = Array.from({ length: order }, () => reader.readSigned(bitsPerSample));
+    expect(reader.readBits(2)).toBe(0);
+    const partitionOrder = reader.readBits(4);
+    for (let partition = 0; partition < 1 << partitionOrder; partition++) {
+        const parameter = reader.readBits(4);
+        const count = (length >> partitionOrder) - (partition === 0 ? order : 0);
+        for (let i = 0; i < count; i++) {
+            const folded = reader.readUnary() * 2 ** parameter + reader.readBits(parameter);
+            const residual = folded % 2 === 0 ? folded / 2 : -(folded + 1) / 2;
+            const n = samples.length;
+            const prediction = FIXED_COEFFICIENTS[order].reduce((sum, coefficient, j) => sum + coefficient * samples[n - 1 - j], 0);
+            samples.push(prediction + residual);
+        }
+    }
+    return samples;
+}
+
+interface DecodedFlac {
+    sampleRate: number;
+    numberOfChannels: number;
+    bitDepth: number;
+    totalSamples: number;
+    channels: number[][];
+}
+
+function decodeFlac(bytes: Uint8Array): DecodedFlac {
+    expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe('fLaC');
+    const header = createBitReader(bytes, 4);
+    expect(header.readBits(1)).toBe(1); // Only STREAMINFO
+    expect(header.readBits(7)).toBe(0);
+    expect(header.readBits(24)).toBe(34);
+    const blockSize = header.readBits(16);
+    header.readBits(16 + 24 + 24);
+    const sampleRate = header.readBits(20);
+    const numberOfChannels = header.readBits(3) + 1;
+    const bitDepth = header.readBits(5) + 1;
+    const totalSamples = header.readBits(36);
+
+    const channels: number[][] = Array.from({ length: numberOfChannels }, () => []);
+    let offset = 4 + 4 + 34;
+    while (offset < bytes.length) {
+        const reader = createBitReader(bytes, offset);
+        expect(reader.readBits(16)).toBe(0xFFF8);
+        const blockSizeCode = reader.readBits(4);
+        reader.readBits(4);
+        const channelCode = reader.readBits(4);
+        reader.readBits(4);
+        // The frame number, UTF-8 coded
+        const first = reader.readBits(8);
+        let continuation = 0;
+        while (first & (0x80 >> continuation)) continuation++;
+        reader.readBits(8 * Math.max(0, continuation - 1));
+        const length = blockSizeCode === 0b0111 ? reader.readBits(16) + 1 : blockSize;
+        const headerEnd = reader.byteOffset;
+        expect(reader.readBits(8)).toBe(crc(bytes.subarray(offset, headerEnd), 8, 0x07));
+
+        const sideChannel = channelCode === 8 || channelCode === 10 ? 1 : channelCode === 9 ? 0 : -1;
+        const subframes = Array.from({ length: channelCode < 8 ? channelCode + 1 : 2 }, (_, channel) =>
+            readSubframe(reader, length, channel === sideChannel ? bitDepth + 1 : bitDepth)
+        );
+        reader.alignToByte();
+        const frameEnd = reader.byteOffset;
+        expect(reader.readBits(16)).toBe(crc(bytes.subarray(offset, frameEnd), 16, 0x8005));
+
+        let decoded = subframes;
+        if (channelCode === 8) {
+            decoded = [subframes[0], subframes[0].map((left, i) => left - subframes[1][i])];
+        } else if (channelCode === 9) {
+            decoded = [subframes[1].map((right, i) => subframes[0][i] + right), subframes[1]];
+        } else if (channelCode === 10) {
+            const sums = subframes[0].map((mid, i) => mid * 2 + (subframes[1][i] & 1));
+            decoded = [sums.map((sum, i) => (sum + subframes[1][i]) >> 1), sums.map((sum, i) => (sum - subframes[1][i]) >> 1)];
+        }
+        decoded.forEach((samples, channel) => channels[channel].push(...samples));
+        offset = frameEnd + 2;
+    }
+    return { sampleRate, numberOfChannels, bitDepth, totalSamples, channels };
+}
+
+// A tone with some noise, so every predictor order and Rice parameter gets used
+function testSignal(length: number, frequency: number, seed: number): Float32Array {
+    const signal = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+        seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+        signal[i] = 0.6 * Math.sin(i * frequency) + 0.05 * (seed / 0x7fffffff - 0.5);
+    }
+    return signal;
+}
+
+const toIntegers = (channel: Float32Array, bitDepth: number) =>
+    Array.from(channel, value => Math.round(Math.max(-1, Math.min(1, value)) * (2 ** (bitDepth - 1) - 1)));
+
+async function encode(channels: Float32Array[], sampleRate: number, bitDepth: 16 | 24, blockLength: number): Promise<Uint8Array> {
+    const encoder = createFlacEncoder(channels.length, sampleRate, bitDepth);
+    for (let start = 0; start < channels[0].length; start += blockLength) {
+        encoder.encode(channels.map(channel => channel.subarray(start, start + blockLength)));
+    }
+    return new Uint8Array(await encoder.finish().arrayBuffer());
+}
+
+describe('createFlacEncoder', () => {
+    it('encodes stereo 16-bit audio losslessly, whatever size the blocks come in', async () => {
+        const left = testSignal(10000, 0.05, 1);
+        const right = testSignal(10000, 0.05, 2);
+        const decoded = decodeFlac(await encode([left, right], 44100, 16, 3000));
+
+        expect(decoded).toMatchObject({ sampleRate: 44100, numberOfChannels: 2, bitDepth: 16, totalSamples: 10000 });
+        expect(decoded.channels[0]).toEqual(toIntegers(left, 16));
+        expect(decoded.channels[1]).toEqual(toIntegers(right, 16));
+    });
+
+    it('encodes mono 24-bit audio losslessly', async () => {
+        const signal = testSignal(5000, 0.01, 3);
+        const decoded = decodeFlac(await encode([signal], 48000, 24, 5000));
+
+        expect(decoded).toMatchObject({ sampleRate: 48000, numberOfChannels: 1, bitDepth: 24, totalSamples: 5000 });
+        expect(decoded.channels[0]).toEqual(toIntegers(signal, 24));
+    });
+
+    it('encodes silence, identical channels and clipping samples', async () => {
+        const silence = new Float32Array(4096);
+        const loud = Float32Array.from({ length: 4096 }, (_, i) => (i % 2 ? 1.5 : -1.5));
+        const decoded = decodeFlac(await encode([loud, loud], 22050, 16, 4096));
+        expect(decoded.channels[0]).toEqual(toIntegers(loud, 16));
+        expect(decoded.channels[1]).toEqual(toIntegers(loud, 16));
+
+        const quiet = decodeFlac(await encode([silence], 16000, 16, 4096));
+        expect(quiet.channels[0]).toEqual(toIntegers(silence, 16));
+    });
+});
@@ -0,0 +1,366 @@
+import { createBlobBuilder, createBlockWriter, StreamingEncoder } from './sampleStream';
+
+// A compact FLAC encoder: fixed-size blocks, stereo decorrelation, the fixed
+// polynomial predictors (orders 0-4) and partitioned Rice coding of the residual.
+// It compresses somewhat less than libFLAC's LPC modes, but decodes everywhere.
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 8;
+const MAX_RICE_PARAMETER = 14; // 15 is reserved as the escape code
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+    88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6,
+    24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11,
+};
+const SAMPLE_SIZE_CODES: Record<number, number> = { 16: 4, 24: 6 };
+
+enum ChannelAssignment {
+    LEFT_SIDE = 8,
+    SIDE_RIGHT = 9,
+    MID_SIDE = 10,
+}
+
+function createTable(bits: number, polynomial: number): Uint16Array {
+    const table = new Uint16Array(256);
+    const topBit = 1 << (bits - 1);
+    const mask = (1 << bits) - 1;
+    for (let i = 0; i < 256; i++) {
+        let crc = i << (bits - 8);
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & topBit ? (crc << 1) ^ polynomial : crc << 1;
+        }
+        table[i] = crc & mask;
+    }
+    return table;
+}
+
+const CRC8_TABLE = createTable(8, 0x07);
+const CRC16_TABLE = createTable(16, 0x8005);
+
+function crc8(bytes: Uint8Array): number {
+    let crc = 0;
+    for (let i = 0; i < bytes.length; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+    return crc;
+}
+
+function crc16(bytes: Uint8Array): number {
+    let crc = 0;
+    for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]]) & 0xFFFF;
+    return crc;
+}
+
+function createBitWriter(initialSize: number) {
+    let bytes = new Uint8Array(initialSize);
+    let position = 0;
+    let bitBuffer = 0;
+    let bitCount = 0;
+
+    const pushByte = (byte: number) => {
+        if (position === bytes.length) {
+            const grown = new Uint8Array(bytes.length * 2);
+            grown.set(bytes);
+            bytes = grown;
+        }
+        bytes[position++] = byte;
+    };
+
+    // Writes the low `count` bits of a non-negative `value`, most significant first
+    const writeBits = (value: number, count: number) => {
+        if (count > 24) {
+            writeBits(Math.floor(value / 0x1000000), count - 24);
+            writeBits(value % 0x1000000, 24);
+            return;
+        }
+        if (count === 0) return;
+        bitBuffer = (bitBuffer << count) | (value & ((1 << count) - 1));
+        bitCount += count;
+        while (bitCount >= 8) {
+            bitCount -= 8;
+            pushByte((bitBuffer >>> bitCount) & 0xFF);
+        }
+        bitBuffer &= (1 << bitCount) - 1;
+    };
+
+    return {
+        writeBits,
+        writeSigned(value: number, count: number) {
+            writeBits(count === 32 ? value >>> 0 : value & ((1 << count) - 1), count);
+        },
+        // `quotient` zero bits followed by a one
+        writeUnary(quotient: number) {
+            while (quotient >= 24) {
+                writeBits(0, 24);
+                quotient -= 24;
+            }
+            writeBits(1, quotient + 1);
+        },
+        alignToByte() {
+            if (bitCount > 0) writeBits(0, 8 - bitCount);
+        },
+        // Only meaningful when byte-aligned
+        bytes: () => bytes.subarray(0, position),
+        reset() {
+            position = 0;
+            bitBuffer = 0;
+            bitCount = 0;
+        },
+    };
+}
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+
+// Frame numbers are stored with the UTF-8 variable-length scheme
+function writeFrameNumber(writer: BitWriter, value: number) {
+    if (value < 0x80) {
+        writer.writeBits(value, 8);
+        return;
+    }
+    const byteCount = value < 0x800 ? 2 : value < 0x10000 ? 3 : value < 0x200000 ? 4 : value < 0x4000000 ? 5 : 6;
+    writer.writeBits(((0xFF << (8 - byteCount)) & 0xFF) | Math.floor(value / 2 ** (6 * (byteCount - 1))), 8);
+    for (let i = byteCount - 2; i >= 0; i--) {
+        writer.writeBits(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3F), 8);
+    }
+}
+
+// Residual of the fixed polynomial predictor of the given order, zero for the warm-up samples
+function fixedResidual(samples: Int32Array, order: number, residual: Int32Array) {
+    residual.fill(0, 0, order);
+    for (let i = order; i < samples.length; i++) {
+        const x = samples;
+        switch (order) {
+            case 0: residual[i] = x[i]; break;
+            case 1: residual[i] = x[i] - x[i - 1]; break;
+            case 2: residual[i] = x[i] - 2 * x[i - 1] + x[i - 2]; break;
+            case 3: residual[i] = x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3]; break;
+            default: residual[i] = x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4]; break;
+        }
+    }
+}
+
+function sumOfAbsolutes(residual: Int32Array, from: number): number {
+    let sum = 0;
+    for (let i = from; i < residual.length; i++) sum += Math.abs(residual[i]);
+    return sum;
+}
+
+// Picks the fixed predictor order with the smallest residual
+function bestFixedOrder(samples: Int32Array, residual: Int32Array): { order: number; cost: number } {
+    const maxOrder = Math.min(MAX_FIXED_ORDER, samples.length - 1);
+    let best = { order: 0, cost: Infinity };
+    for (let order = 0; order <= maxOrder; order++) {
+        fixedResidual(samples, order, residual);
+        const cost = sumOfAbsolutes(residual, maxOrder);
+        if (cost < best.cost) best = { order, cost };
+    }
+    return best;
+}
+
+function riceParameterFor(count: number, sum: number): { parameter: number; bits: number } {
+    let best = { parameter: 0, bits: Infinity };
+    for (let parameter = 0; parameter <= MAX_RICE_PARAMETER; parameter++) {
+        // Estimates the quotients from the sum, which is close enough to choose a parameter
+        const bits = count * (parameter + 1) + Math.floor(sum / 2 ** parameter);
+        if (bits < best.bits) best = { parameter, bits };
+    }
+    return best;
+}
+
+interface ResidualCoding {
+    partitionOrder: number;
+    parameters: number[];
+    bits: number;
+}
+
+// Chooses the partition order and per-partition Rice parameters for the zigzag-mapped residual
+function planResidualCoding(folded: Uint32Array, predictorOrder: number): ResidualCoding {
+    const length = folded.length;
+    let maxPartitionOrder = 0;
+    while (
+        maxPartitionOrder < MAX_PARTITION_ORDER
+        && length % (1 << (maxPartitionOrder + 1)) === 0
+        && (length >> (maxPartitionOrder + 1)) > predictorOrder
+    ) {
+        maxPartitionOrder++;
+    }
+
+    let sums = new Float64Array(1 << maxPartitionOrder);
+    const partitionLength = length >> maxPartitionOrder;
+    for (let i = predictorOrder; i < length; i++) {
+        sums[Math.floor(i / partitionLength)] += folded[i];
+    }
+
+    let best: ResidualCoding = { partitionOrder: 0, parameters: [], bits: Infinity };
+    for (let partitionOrder = maxPartitionOrder; partitionOrder >= 0; partitionOrder--) {
+        const partitions = 1 << partitionOrder;
+        const parameters: number[] = [];
+        let bits = 0;
+        for (let partition = 0; partition < partitions; partition++) {
+            const count = (length >> partitionOrder) - (partition === 0 ? predictorOrder : 0);
+            const rice = riceParameterFor(count, sums[partition]);
+            parameters.push(rice.parameter);
+            bits += 4 + rice.bits;
+        }
+        if (bits < best.bits) best = { partitionOrder, parameters, bits };
+
+        // Pairs of partitions combine into the partitions of the next lower order
+        const merged = new Float64Array(partitions >> 1);
+        for (let i = 0; i < merged.length; i++) merged[i] = sums[2 * i] + sums[2 * i + 1];
+        sums = merged;
+    }
+    return best;
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array, bitsPerSample: number, residual: Int32Array) {
+    const length = samples.length;
+
+    let isConstant = true;
+    for (let i = 1; i < length && isConstant; i++) isConstant = samples[i] === samples[0];
+    if (isConstant) {
+        writer.writeBits(0, 8);
+        writer.writeSigned(samples[0], bitsPerSample);
+        return;
+    }
+
+    const { order } = bestFixedOrder(samples, residual);
+    fixedResidual(samples, order, residual);
+    const folded = new Uint32Array(length);
+    for (let i = order; i < length; i++) {
+        folded[i] = residual[i] >= 0 ? 2 * residual[i] : -2 * residual[i] - 1;
+    }
+    const coding = planResidualCoding(folded, order);
+
+    const fixedBits = order * bitsPerSample + 6 + coding.bits;
+    if (fixedBits >= length * bitsPerSample) {
+        // Noise-like blocks are stored verbatim
+        writer.writeBits(0b00000010, 8);
+        for (let i = 0; i < length; i++) writer.writeSigned(samples[i], bitsPerSample);
+        return;
+    }
+
+    writer.writeBits((0b001000 | order) << 1, 8);
+    for (let i = 0; i < order; i++) writer.writeSigned(samples[i], bitsPerSample);
+    writer.writeBits(0, 2); // Rice coding with 4-bit parameters
+    writer.writeBits(coding.partitionOrder, 4);
+    const partitionLength = length >> coding.partitionOrder;
+    coding.parameters.forEach((parameter, partition) => {
+        writer.writeBits(parameter, 4);
+        const end = (partition + 1) * partitionLength;
+        for (let i = Math.max(order, partition * partitionLength); i < end; i++) {
+            writer.writeUnary(folded[i] >>> parameter);
+            writer.writeBits(folded[i] & ((1 << parameter) - 1), parameter);
+        }
+    });
+}
+
+export function createFlacEncoder(numberOfChannels: number, sampleRate: number, bitDepth: 16 | 24): StreamingEncoder {
+    if (numberOfChannels > 8) {
+        throw new Error('FLAC supports at most 8 channels.');
+    }
+
+    const output = createBlobBuilder('audio/flac');
+    const writer = createBitWriter(BLOCK_SIZE * numberOfChannels * 4);
+    const maxValue = 2 ** (bitDepth - 1) - 1;
+    let frameNumber = 0;
+    let totalSamples = 0;
+    let minFrameSize = Infinity;
+    let maxFrameSize = 0;
+
+    const channels = Array.from({ length: numberOfChannels }, () => new Int32Array(BLOCK_SIZE));
+    const mid = new Int32Array(BLOCK_SIZE);
+    const side = new Int32Array(BLOCK_SIZE);
+    const residual = new Int32Array(BLOCK_SIZE);
+
+    const encodeFrame = (block: Float32Array[]) => {
+        const length = block[0].length;
+        const samples = channels.map((data, channel) => {
+            const frame = data.subarray(0, length);
+            for (let i = 0; i < length; i++) {
+                frame[i] = Math.round(Math.max(-1, Math.min(1, block[channel][i])) * maxValue);
+            }
+            return frame;
+        });
+
+        let channelCode = numberOfChannels - 1;
+        let subframes: { samples: Int32Array; bitsPerSample: number }[] = samples.map(data => ({ samples: data, bitsPerSample: bitDepth }));
+        if (numberOfChannels === 2 && length > 1) {
+            const [left, right] = samples;
+            const midFrame = mid.subarray(0, length);
+            const sideFrame = side.subarray(0, length);
+            for (let i = 0; i < length; i++) {
+                midFrame[i] = (left[i] + right[i]) >> 1;
+                sideFrame[i] = left[i] - right[i];
+            }
+            const costOf = (data: Int32Array) => bestFixedOrder(data, residual.subarray(0, length)).cost;
+            const leftCost = costOf(left);
+            const rightCost = costOf(right);
+            const midCost = costOf(midFrame);
+            const sideCost = costOf(sideFrame);
+            const options = [
+                { cost: leftCost + rightCost, code: 1, subframes },
+                { cost: leftCost + sideCost, code: ChannelAssignment.LEFT_SIDE, subframes: [{ samples: left, bitsPerSample: bitDepth }, { samples: sideFrame, bitsPerSample: bitDepth + 1 }] },
+                { cost: sideCost + rightCost, code: ChannelAssignment.SIDE_RIGHT, subframes: [{ samples: sideFrame, bitsPerSample: bitDepth + 1 }, { samples: right, bitsPerSample: bitDepth }] },
+                { cost: midCost + sideCost, code: ChannelAssignment.MID_SIDE, subframes: [{ samples: midFrame, bitsPerSample: bitDepth }, { samples: sideFrame, bitsPerSample: bitDepth + 1 }] },
+            ];
+            const best = options.reduce((a, b) => (b.cost < a.cost ? b : a));
+            channelCode = best.code;
+            subframes = best.subframes;
+        }
+
+        writer.reset();
+        writer.writeBits(0xFFF8, 16); // Sync code, fixed block size
+        writer.writeBits(length === BLOCK_SIZE ? 0b1100 : 0b0111, 4);
+        writer.writeBits(SAMPLE_RATE_CODES[sampleRate] ?? 0, 4);
+        writer.writeBits(channelCode, 4);
+        writer.writeBits(SAMPLE_SIZE_CODES[bitDepth], 3);
+        writer.writeBits(0, 1);
+        writeFrameNumber(writer, frameNumber);
+        if (length !== BLOCK_SIZE) writer.writeBits(length - 1, 16);
+        writer.writeBits(crc8(writer.bytes()), 8);
+
+        for (const subframe of subframes) {
+            writeSubframe(writer, subframe.samples, subframe.bitsPerSample, residual.subarray(0, length));
+        }
+        writer.alignToByte();
+        writer.writeBits(crc16(writer.bytes()), 16);
+
+        const frame = writer.bytes();
+        output.append(frame);
+        minFrameSize = Math.min(minFrameSize, frame.length);
+        maxFrameSize = Math.max(maxFrameSize, frame.length);
+        totalSamples += length;
+        frameNumber++;
+    };
+
+    const blockWriter = createBlockWriter(numberOfChannels, BLOCK_SIZE, encodeFrame);
+
+    // The stream header goes in front at the end, once the sizes are known
+    const createHeader = (): Uint8Array => {
+        const header = createBitWriter(42);
+        header.writeBits(0x664C6143, 32); // "fLaC"
+        header.writeBits(1, 1); // Last metadata block
+        header.writeBits(0, 7); // STREAMINFO
+        header.writeBits(34, 24);
+        header.writeBits(BLOCK_SIZE, 16);
+        header.writeBits(BLOCK_SIZE, 16);
+        header.writeBits(frameNumber > 0 ? minFrameSize : 0, 24);
+        header.writeBits(maxFrameSize, 24);
+        header.writeBits(sampleRate, 20);
+        header.writeBits(numberOfChannels - 1, 3);
+        header.writeBits(bitDepth - 1, 5);
+        header.writeBits(totalSamples, 36);
+        // An all-zero MD5 signature means it wasn't computed
+        for (let i = 0; i < 4; i++) header.writeBits(0, 32);
+        return header.bytes().slice();
+    };
+
+    return {
+        encode(block: Float32Array[]) {
+            blockWriter.write(block);
+        },
+        finish() {
+            blockWriter.flush();
+            return output.finish(createHeader());
+        },
+    };
+}
@@ -0,0 +1,276 @@
+import { SampleSink } from './sampleStream';
+
+// Loudness measurement per ITU-R BS.1770-4 and a true-peak limiter, used to
+// bring output to a target integrated loudness without clipping.
+
+// Peaks are held below this, in dB true peak, as EBU R128 recommends
+export const TRUE_PEAK_CEILING_DB = -1;
+// Very quiet or nearly silent input isn't boosted further than this
+const MAX_NORMALIZATION_GAIN_DB = 24;
+
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+// Seconds per gating block, which overlap by 75%
+const GATING_BLOCK_DURATION = 0.4;
+const GATING_BLOCK_STEPS = 4;
+
+// Seconds the limiter looks ahead and takes to recover from a reduction
+const LIMITER_LOOKAHEAD = 0.005;
+const LIMITER_RELEASE = 0.1;
+// Half the taps of the interpolation filter used to find inter-sample peaks
+const INTERPOLATION_HALF_WIDTH = 6;
+const OVERSAMPLING = 4;
+
+interface Biquad {
+    b: [number, number, number];
+    a: [number, number];
+}
+
+// The two K-weighting stages, a high shelf and a high pass, for any sample rate
+function kWeightingFilters(sampleRate: number): Biquad[] {
+    let f0 = 1681.974450955533;
+    let q = 0.7071752369554196;
+    let k = Math.tan(Math.PI * f0 / sampleRate);
+    const vh = Math.pow(10, 3.999843853973347 / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    let a0 = 1 + k / q + k * k;
+    const shelf: Biquad = {
+        b: [(vh + vb * k / q + k * k) / a0, 2 * (k * k - vh) / a0, (vh - vb * k / q + k * k) / a0],
+        a: [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0],
+    };
+
+    f0 = 38.13547087602444;
+    q = 0.5003270373238773;
+    k = Math.tan(Math.PI * f0 / sampleRate);
+    a0 = 1 + k / q + k * k;
+    const highPass: Biquad = {
+        b: [1, -2, 1],
+        a: [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0],
+    };
+    return [shelf, highPass];
+}
+
+// Surround channels count 1.41 times; the LFE of 5.1 isn't measured
+function channelWeights(numberOfChannels: number): number[] {
+    if (numberOfChannels === 6) return [1, 1, 1, 0, 1.41, 1.41];
+    return Array.from({ length: numberOfChannels }, (_, channel) => (channel < 3 ? 1 : 1.41));
+}
+
+const powerToLoudness = (power: number) => -0.691 + 10 * Math.log10(power);
+
+// Measures integrated loudness of everything written to it, in LUFS.
+// Silence written as such counts like any other quiet audio: the gates drop it.
+export function createLoudnessMeter(numberOfChannels: number, sampleRate: number): SampleSink & { integratedLoudness(): number } {
+    const filters = kWeightingFilters(sampleRate);
+    const weights = channelWeights(numberOfChannels);
+    // Two delay values per filter stage and channel
+    const state = Array.from({ length: numberOfChannels }, () => filters.map(() => [0, 0]));
+    const stepLength = Math.round(GATING_BLOCK_DURATION / GATING_BLOCK_STEPS * sampleRate);
+    const stepPowers: number[] = [];
+    const blockPowers: number[] = [];
+    const sums = new Float64Array(numberOfChannels);
+    let filled = 0;
+
+    const completeStep = () => {
+        let power = 0;
+        for (let channel = 0; channel < numberOfChannels; channel++) {
+            power += weights[channel] * sums[channel] / stepLength;
+            sums[channel] = 0;
+        }
+        filled = 0;
+        stepPowers.push(power);
+        if (stepPowers.length >= GATING_BLOCK_STEPS) {
+            const recent = stepPowers.slice(-GATING_BLOCK_STEPS);
+            blockPowers.push(recent.reduce((sum, value) => sum + value, 0) / GATING_BLOCK_STEPS);
+            stepPowers.shift();
+        }
+    };
+
+    const write = (channels: Float32Array[]) => {
+        const length = channels[0].length;
+        let offset = 0;
+        while (offset < length) {
+            const count = Math.min(stepLength - filled, length - offset);
+            for (let channel = 0; channel < numberOfChannels; channel++) {
+                if (weights[channel] === 0) continue;
+                const data = channels[channel];
+                const stages = state[channel];
+                let sum = 0;
+                for (let i = offset; i < offset + count; i++) {
+                    let value = data[i];
+                    for (let stage = 0; stage < filters.length; stage++) {
+                        // Transposed direct form II
+                        const { b, a } = filters[stage];
+                        const z = stages[stage];
+                        const output = b[0] * value + z[0];
+                        z[0] = b[1] * value - a[0] * output + z[1];
+                        z[1] = b[2] * value - a[1] * output;
+                        value = output;
+                    }
+                    sum += value * value;
+                }
+                sums[channel] += sum;
+            }
+            filled += count;
+            offset += count;
+            if (filled === stepLength) completeStep();
+        }
+    };
+
+    return {
+        write,
+        writeSilence(length: number) {
+            const silence = new Float32Array(Math.min(length, stepLength));
+            for (let remaining = length; remaining > 0; remaining -= silence.length) {
+                const count = Math.min(remaining, silence.length);
+                write(Array.from({ length: numberOfChannels }, () => silence.subarray(0, count)));
+            }
+        },
+        integratedLoudness() {
+            const audible = blockPowers.filter(power => power > 0 && powerToLoudness(power) > ABSOLUTE_GATE_LUFS);
+            if (audible.length === 0) return -Infinity;
+            const mean = (powers: number[]) => powers.reduce((sum, power) => sum + power, 0) / powers.length;
+            const relativeGate = powerToLoudness(mean(audible)) + RELATIVE_GATE_LU;
+            const gated = audible.filter(power => powerToLoudness(power) > relativeGate);
+            return powerToLoudness(mean(gated));
+        },
+    };
+}
+
+// Linear gain that moves the measured loudness to the target
+export function normalizationGain(loudness: number, targetLufs: number): number {
+    if (!isFinite(loudness)) return 1;
+    return Math.pow(10, Math.min(MAX_NORMALIZATION_GAIN_DB, targetLufs - loudness) / 20);
+}
+
+// Windowed-sinc taps for the points between samples at 1/4, 2/4 and 3/4
+function interpolationTaps(): Float64Array[] {
+    const taps: Float64Array[] = [];
+    for (let phase = 1; phase < OVERSAMPLING; phase++) {
+        const fraction = phase / OVERSAMPLING;
+        const phaseTaps = new Float64Array(2 * INTERPOLATION_HALF_WIDTH);
+        for (let j = 0; j < phaseTaps.length; j++) {
+            const x = fraction - (j - INTERPOLATION_HALF_WIDTH + 1);
+            const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+            const window = 0.5 * (1 + Math.cos(Math.PI * x / INTERPOLATION_HALF_WIDTH));
+            phaseTaps[j] = sinc * window;
+        }
+        taps.push(phaseTaps);
+    }
+    return taps;
+}
+
+// Applies a gain and then holds the true peak (including the peaks between
+// samples) below the ceiling. The gain for each sample is the lowest any peak
+// in the lookahead needs, smoothed over the lookahead so it ramps rather than
+// steps down, and recovers over the release time. Output is delayed
+// internally; `flush` returns the rest.
+export function createTruePeakLimiter(
+    numberOfChannels: number,
+    sampleRate: number,
+    gain: number,
+    ceilingDb = TRUE_PEAK_CEILING_DB
+) {
+    const ceiling = Math.pow(10, ceilingDb / 20);
+    const taps = interpolationTaps();
+    const historyLength = 2 * INTERPOLATION_HALF_WIDTH;
+    const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD * sampleRate));
+    const releaseStep = 1 - Math.exp(-1 / (LIMITER_RELEASE * sampleRate));
+    // A sample leaves once the peaks up to a lookahead after it are known
+    const delay = INTERPOLATION_HALF_WIDTH + lookahead - 1;
+    const bufferLength = Math.max(delay, historyLength) + 1;
+
+    // Ring buffers of gained input per channel, and of the gain stages
+    const input = Array.from({ length: numberOfChannels }, () => new Float32Array(bufferLength));
+    // Sliding minimum of the gain each peak requires: a ring of (time, gain)
+    // pairs with increasing gains, so the front is the lowest in the lookahead
+    const minimumTimes = new Float64Array(lookahead + 1);
+    const minimumGains = new Float64Array(lookahead + 1);
+    let minimumFront = 0;
+    let minimumCount = 0;
+    const smoothed = new Float64Array(lookahead);
+    let smoothedSum = lookahead;
+    smoothed.fill(1);
+    let released = 1;
+    let time = 0;
+    let primed = 0;
+
+    // Largest magnitude between sample m and m + 1, where m sits
+    // INTERPOLATION_HALF_WIDTH samples before the newest one
+    const peakAt = () => {
+        let peak = 0;
+        const newest = time % bufferLength;
+        const center = (time - INTERPOLATION_HALF_WIDTH + bufferLength) % bufferLength;
+        for (let channel = 0; channel < numberOfChannels; channel++) {
+            const data = input[channel];
+            const current = Math.abs(data[center]);
+            const next = Math.abs(data[(center + 1) % bufferLength]);
+            peak = Math.max(peak, current);
+            // Inter-sample peaks stay well under the ceiling when the samples do
+            if (Math.max(current, next) < ceiling * 0.5) continue;
+            for (const phaseTaps of taps) {
+                let value = 0;
+                for (let j = 0; j < historyLength; j++) {
+                    value += phaseTaps[j] * data[(newest - historyLength + 1 + j + bufferLength) % bufferLength];
+                }
+                peak = Math.max(peak, Math.abs(value));
+            }
+        }
+        return peak;
+    };
+
+    // Takes one frame of the block, or silence without one; true when a frame came out
+    const processFrame = (block: Float32Array[] | null, index: number, output: Float32Array[], outputIndex: number) => {
+        const slot = time % bufferLength;
+        for (let channel = 0; channel < numberOfChannels; channel++) {
+            input[channel][slot] = block ? block[channel][index] * gain : 0;
+        }
+
+        const peak = peakAt();
+        const required = peak > ceiling ? ceiling / peak : 1;
+        const ring = minimumTimes.length;
+        while (minimumCount > 0 && minimumGains[(minimumFront + minimumCount - 1) % ring] >= required) minimumCount--;
+        minimumTimes[(minimumFront + minimumCount) % ring] = time;
+        minimumGains[(minimumFront + minimumCount) % ring] = required;
+        minimumCount++;
+        if (minimumTimes[minimumFront] <= time - lookahead) {
+            minimumFront = (minimumFront + 1) % ring;
+            minimumCount--;
+        }
+        const lowest = minimumGains[minimumFront];
+        released = Math.min(lowest, released + (1 - released) * releaseStep);
+        smoothedSum += released - smoothed[time % lookahead];
+        smoothed[time % lookahead] = released;
+
+        time++;
+        if (primed < delay) {
+            primed++;
+            return false;
+        }
+        const outSlot = (time - 1 - delay + bufferLength) % bufferLength;
+        const frameGain = smoothedSum / lookahead;
+        for (let channel = 0; channel < numberOfChannels; channel++) {
+            output[channel][outputIndex] = input[channel][outSlot] * frameGain;
+        }
+        return true;
+    };
+
+    const run = (block: Float32Array[] | null, length: number) => {
+        const output = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+        let written = 0;
+        for (let i = 0; i < length; i++) {
+            if (processFrame(block, i, output, written)) written++;
+        }
+        return output.map(channel => channel.subarray(0, written));
+    };
+
+    return {
+        process(block: Float32Array[]): Float32Array[] {
+            return run(block, block[0].length);
+        },
+        // Pushes the delayed samples out with silence
+        flush(): Float32Array[] {
+            return run(null, delay);
+        },
+    };
+}
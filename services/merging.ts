@@ -0,0 +1,136 @@
+import { AudioSource, MergeClip, MergeTransition, MergeTransitionType } from '../types';
+import { SampleSink } from './sampleStream';
+import { mixChannels } from './channelMixing';
+import { createStreamingResampler, resampledLength } from './resampler';
+
+// Seconds of each input read at a time
+const READ_WINDOW_DURATION = 5;
+
+// The sample rate and channel count every input is converted to
+export interface MergeTarget {
+    sampleRate: number;
+    numberOfChannels: number;
+}
+
+// The part of a source left after trimming, in its own samples
+function trimmedRange(source: AudioSource, clip: MergeClip): { start: number; end: number } {
+    const start = Math.min(source.length, Math.round(clip.trimStart * source.sampleRate));
+    const end = Math.max(start, source.length - Math.round(clip.trimEnd * source.sampleRate));
+    return { start, end };
+}
+
+// Writes the trimmed part of a source mixed to the channel count, at the
+// source's own sample rate, a window at a time
+export async function streamTrimmedSource(
+    source: AudioSource,
+    clip: MergeClip,
+    numberOfChannels: number,
+    sink: Pick<SampleSink, 'write'>,
+    onProgress?: (fraction: number) => void
+): Promise<void> {
+    const { start, end } = trimmedRange(source, clip);
+    const windowLength = Math.round(READ_WINDOW_DURATION * source.sampleRate);
+    for (let windowStart = start; windowStart < end; windowStart += windowLength) {
+        const windowEnd = Math.min(end, windowStart + windowLength);
+        sink.write(mixChannels(await source.read(windowStart, windowEnd), numberOfChannels));
+        onProgress?.((windowEnd - start) / (end - start));
+    }
+}
+
+function concatChannels(a: Float32Array[], b: Float32Array[]): Float32Array[] {
+    return a.map((channel, index) => {
+        const joined = new Float32Array(channel.length + b[index].length);
+        joined.set(channel);
+        joined.set(b[index], channel.length);
+        return joined;
+    });
+}
+
+// Joins the sources one after another. `transitions[i]` sits between source i
+// and i + 1: silence, or an equal-power crossfade over the end of one and the
+// start of the next. The end of a source is held back until the next one
+// arrives to be mixed with it.
+export async function streamMergedAudio(
+    sources: AudioSource[],
+    clips: MergeClip[],
+    transitions: MergeTransition[],
+    target: MergeTarget,
+    sink: SampleSink,
+    onProgress?: (fraction: number) => void
+): Promise<void> {
+    const { sampleRate, numberOfChannels } = target;
+    const ranges = sources.map((source, index) => trimmedRange(source, clips[index]));
+    const outputLengths = ranges.map((range, index) => resampledLength(range.end - range.start, sources[index].sampleRate, sampleRate));
+    // A crossfade can't be longer than either of the files it joins
+    const crossfadeLengths = transitions.map((transition, index) => transition.type === MergeTransitionType.CROSSFADE
+        ? Math.min(Math.round(transition.duration * sampleRate), outputLengths[index], outputLengths[index + 1])
+        : 0);
+    const totalLength = ranges.reduce((sum, range) => sum + range.end - range.start, 0);
+    const emptyBlock = () => Array.from({ length: numberOfChannels }, () => new Float32Array(0));
+
+    let read = 0;
+    // End of the previous source, to be faded out under the start of this one
+    let tail = emptyBlock();
+
+    for (let index = 0; index < sources.length; index++) {
+        const source = sources[index];
+        const gain = Math.pow(10, clips[index].gainDb / 20);
+        const holdBackLength = index < transitions.length ? crossfadeLengths[index] : 0;
+        const resampler = source.sampleRate !== sampleRate
+            ? createStreamingResampler(numberOfChannels, source.sampleRate, sampleRate)
+            : null;
+        const fadeLength = tail[0].length;
+        let held = emptyBlock();
+        let position = 0;
+
+        const write = (block: Float32Array[]) => {
+            const length = block[0].length;
+            if (length === 0) return;
+            // Mixing may have given channels the same array, so the gain makes copies
+            if (gain !== 1) block = block.map(channel => channel.map(value => value * gain));
+            if (position < fadeLength) {
+                const count = Math.min(length, fadeLength - position);
+                block = block.map((channel, c) => {
+                    const mixed = channel.slice();
+                    for (let i = 0; i < count; i++) {
+                        const t = (position + i + 0.5) / fadeLength * Math.PI / 2;
+                        mixed[i] = mixed[i] * Math.sin(t) + tail[c][position + i] * Math.cos(t);
+                    }
+                    return mixed;
+                });
+            }
+            position += length;
+
+            if (holdBackLength === 0) {
+                sink.write(block);
+                return;
+            }
+            const joined = concatChannels(held, block);
+            const split = Math.max(0, joined[0].length - holdBackLength);
+            if (split > 0) sink.write(joined.map(channel => channel.subarray(0, split)));
+            held = joined.map(channel => channel.subarray(split));
+        };
+
+        const sourceLength = ranges[index].end - ranges[index].start;
+        await streamTrimmedSource(source, clips[index], numberOfChannels, {
+            write: block => write(resampler ? resampler.process(block) : block),
+        }, fraction => onProgress?.((read + fraction * sourceLength) / totalLength));
+        read += sourceLength;
+        if (resampler) write(resampler.flush());
+
+        // Only when resampling made this source a little shorter than planned
+        if (position < fadeLength) {
+            sink.write(tail.map(channel => {
+                const rest = channel.slice(position);
+                for (let i = 0; i < rest.length; i++) rest[i] *= Math.cos((position + i + 0.5) / fadeLength * Math.PI / 2);
+                return rest;
+            }));
+        }
+
+        tail = held;
+        const transition = transitions[index];
+        if (transition?.type === MergeTransitionType.GAP) {
+            sink.writeSilence(Math.round(transition.duration * sampleRate));
+        }
+    }
+}
@@ -0,0 +1,43 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { createBlobBuilder, StreamingEncoder } from './sampleStream';
+
+const MP3_FRAME_SIZE = 1152;
+
+// lamejs only exposes constant bitrate encoding of mono or stereo audio
+export function createMp3Encoder(numberOfChannels: number, sampleRate: number, bitrate: number): StreamingEncoder {
+    if (numberOfChannels > 2) {
+        throw new Error('MP3 output supports at most two channels.');
+    }
+    const mp3encoder = new Mp3Encoder(numberOfChannels, sampleRate, bitrate);
+    const output = createBlobBuilder('audio/mpeg');
+
+    // Reused for every frame instead of converting whole channels up front
+    const left = new Int16Array(MP3_FRAME_SIZE);
+    const right = new Int16Array(MP3_FRAME_SIZE);
+
+    const convertBuffer = (buffer: Float32Array, data: Int16Array) => {
+        for (let i = 0; i < buffer.length; i++) {
+            data[i] = Math.max(-1, Math.min(1, buffer[i])) * 32767;
+        }
+    };
+
+    return {
+        encode(block: Float32Array[]) {
+            const length = block[0].length;
+            for (let i = 0; i < length; i += MP3_FRAME_SIZE) {
+                const frameLength = Math.min(MP3_FRAME_SIZE, length - i);
+                convertBuffer(block[0].subarray(i, i + frameLength), left);
+                let rightChunk;
+                if (numberOfChannels > 1) {
+                    convertBuffer(block[1].subarray(i, i + frameLength), right);
+                    rightChunk = right.subarray(0, frameLength);
+                }
+                output.append(mp3encoder.encodeBuffer(left.subarray(0, frameLength), rightChunk));
+            }
+        },
+        finish() {
+            output.append(mp3encoder.flush());
+            return output.finish();
+        },
+    };
+}
@@ -0,0 +1,293 @@
+import { AudioSource, Settings } from '../types';
+
+// Noise reduction by spectral subtraction: the audio is taken apart into
+// overlapping windowed frames, and in each frame every frequency is turned
+// down by the share of its power that the noise accounts for. The noise
+// spectrum is learned from the quietest frames of the recording, which in
+// speech hold nothing but the hiss or hum under it.
+
+// Seconds per analysis frame, rounded to a power of two in samples. Frames
+// overlap by half and are windowed on the way in and out.
+const FRAME_DURATION = 0.03;
+// The quietest tenth of the frames is taken to be noise
+const NOISE_FRACTION = 0.1;
+// Noise power is subtracted this many times over, so its random peaks don't
+// survive as warbling "musical noise"
+const OVER_SUBTRACTION = 3;
+// The gate silences frames up to GATE_CLOSED_DB above the noise, leaves those
+// from GATE_OPEN_DB up alone and fades in between
+const GATE_CLOSED_DB = 3;
+const GATE_OPEN_DB = 9;
+// Seconds of audio read at a time while learning the noise
+const READ_WINDOW_DURATION = 10;
+
+export interface NoiseProfile {
+    frameLength: number;
+    // Average power in each frequency bin of a windowed frame of noise
+    power: Float64Array;
+}
+
+export interface DenoiseOptions {
+    // How far the noise is turned down, in dB; 0 leaves it
+    reductionDb: number;
+    // Silences the frames that hold nothing above the noise
+    gate: boolean;
+}
+
+// What to do to the audio speech is detected in, and to the audio rendered, or null for nothing
+export function denoiseOptionsFor(settings: Settings, use: 'detection' | 'output'): DenoiseOptions | null {
+    if (use === 'detection') {
+        return settings.noiseReduction > 0 ? { reductionDb: settings.noiseReduction, gate: false } : null;
+    }
+    const reductionDb = settings.denoiseOutput ? settings.noiseReduction : 0;
+    return reductionDb > 0 || settings.noiseGate ? { reductionDb, gate: settings.noiseGate } : null;
+}
+
+function frameLengthFor(sampleRate: number): number {
+    return Math.pow(2, Math.round(Math.log2(FRAME_DURATION * sampleRate)));
+}
+
+// The square root of a Hann window. Used going in and coming out, its square
+// adds up to exactly 1 across frames that overlap by half.
+function frameWindow(frameLength: number): Float64Array {
+    return Float64Array.from({ length: frameLength }, (_, i) => Math.sin(Math.PI * i / frameLength));
+}
+
+// In-place radix-2 FFT of the complex signal in `re` and `im`. The inverse
+// leaves out the division by the size.
+function createFft(size: number) {
+    const cos = Float64Array.from({ length: size / 2 }, (_, i) => Math.cos(2 * Math.PI * i / size));
+    const sin = Float64Array.from({ length: size / 2 }, (_, i) => Math.sin(2 * Math.PI * i / size));
+    const bits = Math.log2(size);
+    const reversed = Uint32Array.from({ length: size }, (_, i) => {
+        let result = 0;
+        for (let bit = 0; bit < bits; bit++) result |= ((i >> bit) & 1) << (bits - 1 - bit);
+        return result;
+    });
+
+    return (re: Float64Array, im: Float64Array, inverse: boolean) => {
+        for (let i = 0; i < size; i++) {
+            const j = reversed[i];
+            if (j > i) {
+                [re[i], re[j]] = [re[j], re[i]];
+                [im[i], im[j]] = [im[j], im[i]];
+            }
+        }
+        const sign = inverse ? 1 : -1;
+        for (let half = 1; half < size; half *= 2) {
+            const step = size / (2 * half);
+            for (let start = 0; start < size; start += 2 * half) {
+                for (let k = 0; k < half; k++) {
+                    const wr = cos[k * step];
+                    const wi = sign * sin[k * step];
+                    const a = start + k;
+                    const b = a + half;
+                    const tr = re[b] * wr - im[b] * wi;
+                    const ti = re[b] * wi + im[b] * wr;
+                    re[b] = re[a] - tr;
+                    im[b] = im[a] - ti;
+                    re[a] += tr;
+                    im[a] += ti;
+                }
+            }
+        }
+    };
+}
+
+// Reads a range that may reach outside the audio, which counts as silence
+async function readPadded(source: AudioSource, start: number, end: number): Promise<Float32Array[]> {
+    const readStart = Math.max(0, start);
+    const readEnd = Math.min(source.length, end);
+    if (readStart === start && readEnd === end) return source.read(start, end);
+    const channels = Array.from({ length: source.numberOfChannels }, () => new Float32Array(end - start));
+    if (readEnd > readStart) {
+        const data = await source.read(readStart, readEnd);
+        data.forEach((channel, index) => channels[index].set(channel, readStart - start));
+    }
+    return channels;
+}
+
+// Averages the spectra of the quietest frames: one pass to find them by their
+// energy, another to take their spectra. Null when the audio is too short or
+// entirely silent.
+export async function learnNoiseProfile(source: AudioSource, onProgress?: (fraction: number) => void): Promise<NoiseProfile | null> {
+    const { length, sampleRate, numberOfChannels } = source;
+    const frameLength = frameLengthFor(sampleRate);
+    const hop = frameLength / 2;
+    if (length < frameLength) return null;
+    const frameCount = Math.floor((length - frameLength) / hop) + 1;
+    const windowLength = Math.ceil(READ_WINDOW_DURATION * sampleRate / hop) * hop;
+
+    // A frame is two hops, so its energy is the sum of theirs
+    const hopEnergies = new Float64Array(Math.ceil(length / hop));
+    for (let start = 0; start < length; start += windowLength) {
+        const channels = await source.read(start, Math.min(length, start + windowLength));
+        for (const channel of channels) {
+            for (let i = 0; i < channel.length; i++) hopEnergies[Math.floor((start + i) / hop)] += channel[i] * channel[i];
+        }
+        onProgress?.(Math.min(1, (start + windowLength) / length) / 2);
+    }
+    const frameEnergies = Float64Array.from({ length: frameCount }, (_, frame) => hopEnergies[frame] + hopEnergies[frame + 1]);
+
+    // Digital silence tells nothing about the noise
+    const audible = Array.from(frameEnergies).filter(energy => energy > 0).sort((a, b) => a - b);
+    if (audible.length === 0) return null;
+    const threshold = audible[Math.floor(NOISE_FRACTION * (audible.length - 1))];
+
+    const fft = createFft(frameLength);
+    const window = frameWindow(frameLength);
+    const re = new Float64Array(frameLength);
+    const im = new Float64Array(frameLength);
+    const power = new Float64Array(frameLength / 2 + 1);
+    let noiseFrames = 0;
+    const framesPerWindow = windowLength / hop;
+    for (let first = 0; first < frameCount; first += framesPerWindow) {
+        const last = Math.min(frameCount, first + framesPerWindow);
+        const quiet: number[] = [];
+        for (let frame = first; frame < last; frame++) {
+            if (frameEnergies[frame] > 0 && frameEnergies[frame] <= threshold) quiet.push(frame);
+        }
+        if (quiet.length > 0) {
+            const start = first * hop;
+            const channels = await source.read(start, (last - 1) * hop + frameLength);
+            for (const frame of quiet) {
+                const offset = frame * hop - start;
+                for (const channel of channels) {
+                    for (let i = 0; i < frameLength; i++) {
+                        re[i] = channel[offset + i] * window[i];
+                        im[i] = 0;
+                    }
+                    fft(re, im, false);
+                    for (let k = 0; k < power.length; k++) power[k] += (re[k] * re[k] + im[k] * im[k]) / numberOfChannels;
+                }
+                noiseFrames++;
+            }
+        }
+        onProgress?.(0.5 + last / frameCount / 2);
+    }
+
+    for (let k = 0; k < power.length; k++) power[k] /= noiseFrames;
+    return { frameLength, power };
+}
+
+// The source with its noise reduced. Frames sit on a fixed grid over the whole
+// audio, so any range reads the same as it would as part of a longer one.
+export function createDenoisedSource(source: AudioSource, profile: NoiseProfile, options: DenoiseOptions): AudioSource {
+    const { sampleRate, length, numberOfChannels } = source;
+    const { frameLength, power: noise } = profile;
+    const hop = frameLength / 2;
+    const bins = frameLength / 2 + 1;
+    const fft = createFft(frameLength);
+    const window = frameWindow(frameLength);
+    const floor = Math.pow(10, -options.reductionDb / 20);
+    const noiseTotal = noise.reduce((sum, value) => sum + value, 0);
+
+    // Channels are transformed two at a time, as the real and imaginary parts
+    // of one complex signal
+    const re = new Float64Array(frameLength);
+    const im = new Float64Array(frameLength);
+    const spectraRe = Array.from({ length: numberOfChannels }, () => new Float64Array(bins));
+    const spectraIm = Array.from({ length: numberOfChannels }, () => new Float64Array(bins));
+    const powers = new Float64Array(bins);
+
+    const processFrame = (input: Float32Array[], inputOffset: number, output: Float32Array[], outputOffset: number) => {
+        for (let first = 0; first < numberOfChannels; first += 2) {
+            const second = first + 1 < numberOfChannels ? first + 1 : -1;
+            for (let i = 0; i < frameLength; i++) {
+                re[i] = input[first][inputOffset + i] * window[i];
+                im[i] = second >= 0 ? input[second][inputOffset + i] * window[i] : 0;
+            }
+            fft(re, im, false);
+            // Separates the spectra of the two real signals by their symmetry
+            for (let k = 0; k < bins; k++) {
+                const mirror = (frameLength - k) % frameLength;
+                spectraRe[first][k] = (re[k] + re[mirror]) / 2;
+                spectraIm[first][k] = (im[k] - im[mirror]) / 2;
+                if (second >= 0) {
+                    spectraRe[second][k] = (im[k] + im[mirror]) / 2;
+                    spectraIm[second][k] = (re[mirror] - re[k]) / 2;
+                }
+            }
+        }
+
+        let frameGain = 1;
+        if (options.gate) {
+            let total = 0;
+            for (let channel = 0; channel < numberOfChannels; channel++) {
+                for (let k = 0; k < bins; k++) total += spectraRe[channel][k] ** 2 + spectraIm[channel][k] ** 2;
+            }
+            const aboveNoiseDb = 10 * Math.log10(total / numberOfChannels / noiseTotal);
+            frameGain = Math.min(1, Math.max(0, (aboveNoiseDb - GATE_CLOSED_DB) / (GATE_OPEN_DB - GATE_CLOSED_DB)));
+        }
+
+        for (let channel = 0; channel < numberOfChannels; channel++) {
+            const specRe = spectraRe[channel];
+            const specIm = spectraIm[channel];
+            if (frameGain === 0 || floor >= 1) {
+                for (let k = 0; k < bins; k++) {
+                    specRe[k] *= frameGain;
+                    specIm[k] *= frameGain;
+                }
+                continue;
+            }
+            for (let k = 0; k < bins; k++) powers[k] = specRe[k] * specRe[k] + specIm[k] * specIm[k];
+            for (let k = 0; k < bins; k++) {
+                // Power averaged with the neighbouring bins is a steadier guide
+                // to how much of a bin is noise
+                const low = Math.max(0, k - 1);
+                const high = Math.min(bins - 1, k + 1);
+                let sum = 0;
+                for (let j = low; j <= high; j++) sum += powers[j];
+                const average = sum / (high - low + 1);
+                const remaining = average > 0 ? 1 - OVER_SUBTRACTION * noise[k] / average : 0;
+                const gain = Math.max(floor, Math.sqrt(Math.max(0, remaining))) * frameGain;
+                specRe[k] *= gain;
+                specIm[k] *= gain;
+            }
+        }
+
+        for (let first = 0; first < numberOfChannels; first += 2) {
+            const second = first + 1 < numberOfChannels ? first + 1 : -1;
+            for (let k = 0; k < bins; k++) {
+                const aRe = spectraRe[first][k];
+                const aIm = spectraIm[first][k];
+                const bRe = second >= 0 ? spectraRe[second][k] : 0;
+                const bIm = second >= 0 ? spectraIm[second][k] : 0;
+                re[k] = aRe - bIm;
+                im[k] = aIm + bRe;
+                if (k > 0 && k < frameLength / 2) {
+                    re[frameLength - k] = aRe + bIm;
+                    im[frameLength - k] = bRe - aIm;
+                }
+            }
+            fft(re, im, true);
+            for (let i = 0; i < frameLength; i++) {
+                const position = outputOffset + i;
+                if (position < 0 || position >= output[first].length) continue;
+                output[first][position] += re[i] / frameLength * window[i];
+                if (second >= 0) output[second][position] += im[i] / frameLength * window[i];
+            }
+        }
+    };
+
+    return {
+        sampleRate,
+        length,
+        numberOfChannels,
+        async read(start: number, end: number) {
+            start = Math.max(0, start);
+            end = Math.min(length, end);
+            const output = Array.from({ length: numberOfChannels }, () => new Float32Array(Math.max(0, end - start)));
+            if (end <= start) return output;
+            // Every frame that overlaps the range
+            const firstFrame = Math.floor(start / hop) - 1;
+            const lastFrame = Math.floor((end - 1) / hop);
+            const inputStart = firstFrame * hop;
+            const input = await readPadded(source, inputStart, lastFrame * hop + frameLength);
+            for (let frame = firstFrame; frame <= lastFrame; frame++) {
+                processFrame(input, frame * hop - inputStart, output, frame * hop - start);
+            }
+            return output;
+        },
+    };
+}
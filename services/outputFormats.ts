@@ -0,0 +1,52 @@
+import { OutputFormat, OutputOptions } from '../types';
+
+export const OUTPUT_FORMATS: { value: OutputFormat; label: string; extension: string }[] = [
+    { value: OutputFormat.MP3, label: 'MP3', extension: 'mp3' },
+    { value: OutputFormat.WAV, label: 'WAV (lossless)', extension: 'wav' },
+    { value: OutputFormat.FLAC, label: 'FLAC (lossless, compressed)', extension: 'flac' },
+];
+
+export const MP3_BITRATES = [32, 48, 64, 96, 128, 160, 192, 256, 320];
+
+// MPEG-1 frames (32 kHz and up) carry up to 320 kbps, MPEG-2 frames (16 to 24 kHz)
+// up to 160 kbps and MPEG-2.5 frames (below 16 kHz) up to 64 kbps
+function maxMp3Bitrate(sampleRate: number): number {
+    if (sampleRate >= 32000) return 320;
+    if (sampleRate >= 16000) return 160;
+    return 64;
+}
+
+// Bitrates of MP3_BITRATES an MP3 at this sample rate can use, or all of them when
+// the rate is not known yet
+export function mp3BitratesFor(sampleRate: number | null): number[] {
+    if (sampleRate === null) return MP3_BITRATES;
+    const max = maxMp3Bitrate(sampleRate);
+    return MP3_BITRATES.filter(bitrate => bitrate <= max);
+}
+
+// The requested bitrate, lowered to the highest one the sample rate allows
+export function supportedMp3Bitrate(bitrate: number, sampleRate: number): number {
+    return Math.min(bitrate, maxMp3Bitrate(sampleRate));
+}
+
+export const OUTPUT_SAMPLE_RATES = [48000, 44100, 32000, 24000, 22050, 16000];
+
+export const LOUDNESS_TARGETS: { value: number; label: string }[] = [
+    { value: -14, label: '-14 LUFS (music streaming)' },
+    { value: -16, label: '-16 LUFS (podcasts, mobile)' },
+    { value: -19, label: '-19 LUFS (podcasts, mono)' },
+    { value: -23, label: '-23 LUFS (EBU R128 broadcast)' },
+];
+
+export const DEFAULT_OUTPUT_OPTIONS: OutputOptions = {
+    format: OutputFormat.MP3,
+    bitDepth: 16,
+    mp3Bitrate: 128,
+    mono: false,
+    sampleRate: null,
+    loudnessTarget: null,
+};
+
+export function fileExtensionFor(format: OutputFormat): string {
+    return OUTPUT_FORMATS.find(option => option.value === format)?.extension ?? 'mp3';
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { PauseMode, Settings } from '../types';
+import { DEFAULT_SETTINGS } from './presets';
+import { calculateOutputLength, calculatePauseLength, calculatePhraseTimings } from './pacing';
+
+const SAMPLE_RATE = 1000;
+
+// Whole seconds of a 1 kHz recording, without pre-roll, post-roll or tempo changes
+const settingsWith = (changes: Partial<Settings>): Settings => ({ ...DEFAULT_SETTINGS, preRollMs: 0, postRollMs: 0, ...changes });
+const audio = (seconds: number) => ({ sampleRate: SAMPLE_RATE, length: seconds * SAMPLE_RATE, numberOfChannels: 1, getChannelData: () => new Float32Array(0) });
+
+describe('calculatePauseLength', () => {
+    it('scales the phrase length', () => {
+        const settings = settingsWith({ pauseMode: PauseMode.MULTIPLIER, pauseMultiplier: 1.5 });
+        expect(calculatePauseLength(2000, 0, settings, SAMPLE_RATE)).toBe(3000);
+    });
+
+    it('adds the fixed time to the scaled phrase length', () => {
+        const settings = settingsWith({ pauseMode: PauseMode.MULTIPLIER_PLUS_OFFSET, pauseMultiplier: 1, pauseSeconds: 0.5 });
+        expect(calculatePauseLength(2000, 0, settings, SAMPLE_RATE)).toBe(2500);
+    });
+
+    it('keeps the scaled phrase length between the shortest and longest pause', () => {
+        const settings = settingsWith({ pauseMode: PauseMode.CLAMPED_MULTIPLIER, pauseMultiplier: 2, minPauseSeconds: 1.5, maxPauseSeconds: 6 });
+        expect(calculatePauseLength(500, 0, settings, SAMPLE_RATE)).toBe(1500);
+        expect(calculatePauseLength(2000, 0, settings, SAMPLE_RATE)).toBe(4000);
+        expect(calculatePauseLength(5000, 0, settings, SAMPLE_RATE)).toBe(6000);
+    });
+
+    it('ignores the phrase length for fixed pauses', () => {
+        const settings = settingsWith({ pauseMode: PauseMode.FIXED, pauseSeconds: 2 });
+        expect(calculatePauseLength(500, 300, settings, SAMPLE_RATE)).toBe(2000);
+        expect(calculatePauseLength(5000, 300, settings, SAMPLE_RATE)).toBe(2000);
+    });
+
+    it('extends the original gap', () => {
+        const settings = settingsWith({ pauseMode: PauseMode.ORIGINAL_GAP_PLUS, pauseSeconds: 1 });
+        expect(calculatePauseLength(500, 700, settings, SAMPLE_RATE)).toBe(1700);
+    });
+});
+
+describe('calculatePhraseTimings', () => {
+    const chunks = [{ start: 1000, end: 2000 }, { start: 4000, end: 6000 }];
+
+    it('places each phrase after the previous one and its pause', () => {
+        const settings = settingsWith({ pauseMode: PauseMode.MULTIPLIER, pauseMultiplier: 1 });
+        const timings = calculatePhraseTimings(audio(8), chunks, settings);
+        expect(timings.map(timing => timing.paced)).toEqual([
+            [{ start: 0, end: 1000 }],
+            [{ start: 2000, end: 4000 }],
+        ]);
+        expect(calculateOutputLength(audio(8), chunks, settings)).toBe(6000);
+    });
+
+    it('plays each phrase once per repetition, each with its own pause', () => {
+        const settings = settingsWith({ pauseMode: PauseMode.FIXED, pauseSeconds: 0.5, repeatCount: 2 });
+        const timings = calculatePhraseTimings(audio(8), chunks, settings);
+        expect(timings[0].paced).toEqual([{ start: 0, end: 1000 }, { start: 1500, end: 2500 }]);
+        expect(timings[1].paced[0]).toEqual({ start: 3000, end: 5000 });
+    });
+
+    it('measures the original gap between the phrases, not their padding', () => {
+        const settings = settingsWith({ pauseMode: PauseMode.ORIGINAL_GAP_PLUS, pauseSeconds: 0, preRollMs: 200, postRollMs: 300 });
+        const timings = calculatePhraseTimings(audio(8), chunks, settings);
+        // The first phrase is padded to 0.8-2.3 s; its pause is the 2 s gap to the next phrase
+        expect(timings[1].paced[0].start - timings[0].paced[0].end).toBe(300 + 2000 + 200);
+    });
+});
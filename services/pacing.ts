@@ -0,0 +1,272 @@
+import { AudioSource, PauseBasis, PauseMode, PcmAudio, Settings, SpeechChunk } from '../types';
+import { SampleSink } from './sampleStream';
+import { resample, resampledLength } from './resampler';
+import { stretchedLength, timeStretch } from './timeStretch';
+import { mixChannels } from './channelMixing';
+
+// Length in samples of the silence inserted after one rendered phrase.
+// `originalGap` is the silence that followed the phrase in the source recording.
+export function calculatePauseLength(phraseLength: number, originalGap: number, settings: Settings, sampleRate: number): number {
+    const { pauseMultiplier, pauseSeconds, minPauseSeconds, maxPauseSeconds } = settings;
+
+    switch (settings.pauseMode) {
+        case PauseMode.FIXED:
+            return pauseSeconds * sampleRate;
+        case PauseMode.MULTIPLIER_PLUS_OFFSET:
+            return phraseLength * pauseMultiplier + pauseSeconds * sampleRate;
+        case PauseMode.CLAMPED_MULTIPLIER:
+            return Math.min(maxPauseSeconds * sampleRate, Math.max(minPauseSeconds * sampleRate, phraseLength * pauseMultiplier));
+        case PauseMode.ORIGINAL_GAP_PLUS:
+            return originalGap + pauseSeconds * sampleRate;
+        case PauseMode.MULTIPLIER:
+        default:
+            return phraseLength * pauseMultiplier;
+    }
+}
+
+// Silence between a phrase and the next in the source, measured without the
+// pre-roll and post-roll, which would otherwise eat into it
+function originalGapAfter(chunks: SpeechChunk[], index: number): number {
+    return index < chunks.length - 1 ? Math.max(0, chunks[index + 1].start - chunks[index].end) : 0;
+}
+
+// Widens each chunk by the pre-roll and post-roll so consonant onsets and decays
+// aren't cut off. Where neighbouring chunks are too close, the gap between them is
+// shared in proportion to the requested roll lengths so the chunks never overlap.
+function applyPrePostRoll(chunks: SpeechChunk[], settings: Settings, sampleRate: number, sourceLength: number): SpeechChunk[] {
+    const preRoll = Math.round(settings.preRollMs / 1000 * sampleRate);
+    const postRoll = Math.round(settings.postRollMs / 1000 * sampleRate);
+    const totalRoll = preRoll + postRoll;
+    if (totalRoll === 0) return chunks;
+
+    return chunks.map((chunk, index) => {
+        let start = chunk.start - preRoll;
+        let end = chunk.end + postRoll;
+        if (index > 0) {
+            const gap = chunk.start - chunks[index - 1].end;
+            if (totalRoll > gap) start = chunk.start - Math.floor(Math.max(0, gap) * preRoll / totalRoll);
+        }
+        if (index < chunks.length - 1) {
+            const gap = chunks[index + 1].start - chunk.end;
+            if (totalRoll > gap) end = chunk.end + Math.floor(Math.max(0, gap) * postRoll / totalRoll);
+        }
+        return { start: Math.max(0, start), end: Math.min(sourceLength, end) };
+    });
+}
+
+// Raised-cosine fade-in and fade-out applied in place.
+function applyFades(data: Float32Array, fadeInLength: number, fadeOutLength: number) {
+    // Very short phrases get shorter fades so the ramps never overlap
+    const fadeIn = Math.min(fadeInLength, Math.floor(data.length / 2));
+    const fadeOut = Math.min(fadeOutLength, Math.floor(data.length / 2));
+    for (let i = 0; i < fadeIn; i++) {
+        data[i] *= 0.5 - 0.5 * Math.cos(Math.PI * i / fadeIn);
+    }
+    for (let i = 0; i < fadeOut; i++) {
+        data[data.length - 1 - i] *= 0.5 - 0.5 * Math.cos(Math.PI * i / fadeOut);
+    }
+}
+
+// One rendered repetition of a chunk, followed by its pause
+interface RenderSegment {
+    chunkIndex: number;
+    // Source range including pre-roll and post-roll
+    start: number;
+    end: number;
+    rate: number;
+    // Pitch-preserving speed change, used for the regular repetitions
+    tempo: number;
+    outputStart: number;
+    outputLength: number;
+    pauseLength: number;
+}
+
+function planSegments(chunks: SpeechChunk[], settings: Settings, sampleRate: number, sourceLength: number): RenderSegment[] {
+    const { repeatCount, finalRepeatRate, tempo } = settings;
+    const speeds = new Array<{ rate: number; tempo: number }>(Math.max(1, repeatCount)).fill({ rate: 1, tempo });
+    // The optional extra repetition at a different speed comes last
+    if (finalRepeatRate !== 1) {
+        speeds.push({ rate: finalRepeatRate, tempo: 1 });
+    }
+
+    const paddedChunks = applyPrePostRoll(chunks, settings, sampleRate, sourceLength);
+    const segments: RenderSegment[] = [];
+    let currentPosition = 0;
+    paddedChunks.forEach((chunk, chunkIndex) => {
+        const originalGap = originalGapAfter(chunks, chunkIndex);
+        for (const { rate, tempo } of speeds) {
+            const unstretchedLength = rate === 1 ? chunk.end - chunk.start : resampledLength(chunk.end - chunk.start, rate, 1);
+            const outputLength = tempo === 1 ? unstretchedLength : stretchedLength(unstretchedLength, tempo);
+            const pauseBase = settings.pauseBasis === PauseBasis.ORIGINAL ? unstretchedLength : outputLength;
+            const pauseLength = calculatePauseLength(pauseBase, originalGap, settings, sampleRate);
+            // Use Math.round on the position to avoid floating point errors
+            segments.push({
+                chunkIndex,
+                start: chunk.start,
+                end: chunk.end,
+                rate,
+                tempo,
+                outputStart: Math.round(currentPosition),
+                outputLength,
+                pauseLength,
+            });
+            // The silence is added by advancing the current position
+            currentPosition += outputLength + pauseLength;
+        }
+    });
+    return segments;
+}
+
+function outputLengthOf(segments: RenderSegment[]): number {
+    if (segments.length === 0) return 0;
+    const last = segments[segments.length - 1];
+    // Use Math.ceil to ensure the buffer is large enough and we have an integer.
+    return Math.ceil(last.outputStart + last.outputLength + last.pauseLength);
+}
+
+// Length in samples of the paced output for the given chunks.
+export function calculateOutputLength(originalBuffer: PcmAudio, chunks: SpeechChunk[], settings: Settings): number {
+    return outputLengthOf(planSegments(chunks, settings, originalBuffer.sampleRate, originalBuffer.length));
+}
+
+export interface PhraseTiming {
+    // Where the phrase is in the source, in samples
+    original: SpeechChunk;
+    // Where each rendered repetition of it is in the paced output, in samples
+    paced: SpeechChunk[];
+}
+
+// Positions of the phrases themselves, without pre-roll and post-roll, in both recordings.
+export function calculatePhraseTimings(originalBuffer: PcmAudio, chunks: SpeechChunk[], settings: Settings): PhraseTiming[] {
+    const timings: PhraseTiming[] = chunks.map(chunk => ({ original: { ...chunk }, paced: [] }));
+    for (const segment of planSegments(chunks, settings, originalBuffer.sampleRate, originalBuffer.length)) {
+        const chunk = chunks[segment.chunkIndex];
+        const speed = segment.rate * segment.tempo;
+        timings[segment.chunkIndex].paced.push({
+            start: Math.round(segment.outputStart + (chunk.start - segment.start) / speed),
+            end: Math.round(segment.outputStart + (chunk.end - segment.start) / speed),
+        });
+    }
+    return timings;
+}
+
+// Renders the paced audio into `sink` in output order. Each padded chunk is read
+// from the source once, so only one phrase is held in memory at a time.
+export async function streamPacedAudio(
+    source: AudioSource,
+    chunks: SpeechChunk[],
+    settings: Settings,
+    sink: SampleSink,
+    onProgress?: (fraction: number) => void
+): Promise<void> {
+    const { numberOfChannels, sampleRate } = source;
+
+    const segments = planSegments(chunks, settings, sampleRate, source.length);
+    const totalLength = outputLengthOf(segments);
+
+    if (totalLength === 0) {
+        throw new Error("No speech detected in the audio file. Try adjusting the silence threshold.");
+    }
+
+    const fadeInLength = Math.round(settings.fadeInMs / 1000 * sampleRate);
+    const fadeOutLength = Math.round(settings.fadeOutMs / 1000 * sampleRate);
+
+    let chunkData: Float32Array[] = [];
+    // Stretched once per phrase and shared by its repetitions
+    let stretchedData: Float32Array[] | null = null;
+    let chunkIndex = -1;
+    for (let index = 0; index < segments.length; index++) {
+        const segment = segments[index];
+        if (segment.chunkIndex !== chunkIndex) {
+            chunkIndex = segment.chunkIndex;
+            chunkData = await source.read(segment.start, segment.end);
+            stretchedData = null;
+        }
+        if (segment.tempo !== 1 && !stretchedData) {
+            stretchedData = timeStretch(chunkData, segment.tempo, sampleRate);
+        }
+
+        const rendered: Float32Array[] = [];
+        for (let channel = 0; channel < numberOfChannels; channel++) {
+            // A different playback rate is rendered by resampling, which changes pitch like a tape
+            const data = segment.tempo !== 1
+                ? stretchedData![channel].slice()
+                : segment.rate === 1 ? chunkData[channel].slice() : resample(chunkData[channel], segment.rate, 1);
+            applyFades(data, fadeInLength, fadeOutLength);
+            rendered.push(data);
+        }
+        sink.write(rendered);
+
+        // The silence runs up to where the next segment starts
+        const segmentEnd = segment.outputStart + segment.outputLength;
+        const nextStart = index < segments.length - 1 ? segments[index + 1].outputStart : totalLength;
+        sink.writeSilence(Math.max(0, nextStart - segmentEnd));
+        onProgress?.((index + 1) / segments.length);
+    }
+}
+
+// Renders each phrase on its own, with the same pre-roll, post-roll, tempo and fades
+// as in the paced output, and `paddingLength` samples of silence before and after it.
+export async function renderPhraseClips(
+    source: AudioSource,
+    chunks: SpeechChunk[],
+    settings: Settings,
+    paddingLength: number,
+    onClip: (index: number, channels: Float32Array[]) => Promise<void>,
+    onProgress?: (fraction: number) => void
+): Promise<void> {
+    const { sampleRate } = source;
+    const fadeInLength = Math.round(settings.fadeInMs / 1000 * sampleRate);
+    const fadeOutLength = Math.round(settings.fadeOutMs / 1000 * sampleRate);
+    const paddedChunks = applyPrePostRoll(chunks, settings, sampleRate, source.length);
+
+    for (let index = 0; index < paddedChunks.length; index++) {
+        const chunk = paddedChunks[index];
+        const phrase = await source.read(chunk.start, chunk.end);
+        const channels = (settings.tempo === 1 ? phrase : timeStretch(phrase, settings.tempo, sampleRate)).map(data => {
+            applyFades(data, fadeInLength, fadeOutLength);
+            const clip = new Float32Array(data.length + 2 * paddingLength);
+            clip.set(data, paddingLength);
+            return clip;
+        });
+        await onClip(index, channels);
+        onProgress?.((index + 1) / paddedChunks.length);
+    }
+}
+
+// Renders phrase i of every source in turn, each followed by its pause, for
+// each i: two recordings of the same text become "L1, pause, L2, pause, ...".
+// The sources share a sample rate and are mixed to `numberOfChannels`.
+// Phrases are played once each, at their own speed.
+export async function streamInterleavedAudio(
+    sources: AudioSource[],
+    chunks: SpeechChunk[][],
+    settings: Settings,
+    numberOfChannels: number,
+    sink: SampleSink,
+    onProgress?: (fraction: number) => void
+): Promise<void> {
+    const { sampleRate } = sources[0];
+    const pairCount = Math.min(...chunks.map(list => list.length));
+    if (pairCount === 0) {
+        throw new Error("There are no phrase pairs to render.");
+    }
+
+    const fadeInLength = Math.round(settings.fadeInMs / 1000 * sampleRate);
+    const fadeOutLength = Math.round(settings.fadeOutMs / 1000 * sampleRate);
+    const paddedChunks = chunks.map((list, index) => applyPrePostRoll(list, settings, sampleRate, sources[index].length));
+
+    for (let pair = 0; pair < pairCount; pair++) {
+        for (let index = 0; index < sources.length; index++) {
+            const list = paddedChunks[index];
+            const chunk = list[pair];
+            const originalGap = originalGapAfter(chunks[index], pair);
+            // Copied, as an upmix from mono shares one array between the channels
+            const channels = mixChannels(await sources[index].read(chunk.start, chunk.end), numberOfChannels).map(data => data.slice());
+            channels.forEach(data => applyFades(data, fadeInLength, fadeOutLength));
+            sink.write(channels);
+            sink.writeSilence(Math.round(calculatePauseLength(chunk.end - chunk.start, originalGap, settings, sampleRate)));
+        }
+        onProgress?.((pair + 1) / pairCount);
+    }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { PauseMode } from '../types';
+import { BUILT_IN_PRESETS, DEFAULT_SETTINGS, parsePresetFile, presetToJson, settingsEqual } from './presets';
+
+const presetFile = (settings: Record<string, unknown>, name = 'Mine') => JSON.stringify({ name, settings });
+
+describe('parsePresetFile', () => {
+    it('reads back an exported preset', () => {
+        const preset = BUILT_IN_PRESETS[1];
+        const [parsed] = parsePresetFile(presetToJson(preset));
+        expect(parsed.name).toBe(preset.name);
+        expect(settingsEqual(parsed.settings, preset.settings)).toBe(true);
+    });
+
+    it('reads a list of presets and trims their names', () => {
+        const text = JSON.stringify([{ name: ' One ', settings: {} }, { name: 'Two', settings: { tempo: 0.8 } }]);
+        expect(parsePresetFile(text).map(preset => preset.name)).toEqual(['One', 'Two']);
+    });
+
+    it('fills in missing settings and drops unknown or mistyped ones', () => {
+        const [{ settings }] = parsePresetFile(presetFile({
+            tempo: '0.8',
+            repeatCount: null,
+            noiseGate: 1,
+            pauseMode: 'sometimes',
+            silenceThreshold: Infinity,
+            surprise: true,
+            pauseSeconds: 2,
+        }));
+        expect(settings).toEqual({ ...DEFAULT_SETTINGS, pauseSeconds: 2 });
+    });
+
+    it('clamps numbers to the slider ranges and rounds the repetition count', () => {
+        const [{ settings }] = parsePresetFile(presetFile({
+            tempo: 0,
+            repeatCount: 2.6,
+            silenceThreshold: 5,
+            pauseMode: PauseMode.FIXED,
+            preRollMs: -20,
+        }));
+        expect(settings).toMatchObject({ tempo: 0.5, repeatCount: 3, silenceThreshold: 0.1, pauseMode: PauseMode.FIXED, preRollMs: 0 });
+
+        const [{ settings: many }] = parsePresetFile(presetFile({ repeatCount: 1e9 }));
+        expect(many.repeatCount).toBe(5);
+    });
+
+    it('swaps pause bounds that are the wrong way round', () => {
+        const [{ settings }] = parsePresetFile(presetFile({ minPauseSeconds: 8, maxPauseSeconds: 2 }));
+        expect(settings).toMatchObject({ minPauseSeconds: 2, maxPauseSeconds: 8 });
+
+        // Against the default longest pause of 6 seconds
+        const [{ settings: onlyMin }] = parsePresetFile(presetFile({ minPauseSeconds: 9 }));
+        expect(onlyMin).toMatchObject({ minPauseSeconds: 6, maxPauseSeconds: 9 });
+    });
+
+    it('rejects files that are not presets', () => {
+        expect(() => parsePresetFile('{ not json')).toThrow('The preset file is not valid JSON.');
+        expect(() => parsePresetFile('[]')).toThrow('The file does not contain a valid preset.');
+        expect(() => parsePresetFile(presetFile({}, '  '))).toThrow('The file does not contain a valid preset.');
+        expect(() => parsePresetFile(JSON.stringify([{ name: 'Fine', settings: {} }, { name: 'No settings' }]))).toThrow(
+            'The file does not contain a valid preset.'
+        );
+    });
+});
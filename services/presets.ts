@@ -0,0 +1,201 @@
+import { PauseBasis, PauseMode, Preset, Settings } from '../types';
+
+const SETTINGS_STORAGE_KEY = 'audio-pacer.settings';
+const PRESETS_STORAGE_KEY = 'audio-pacer.presets';
+const PRESET_FILE_TYPE = 'audio-pacer-preset';
+
+export const DEFAULT_SETTINGS: Settings = {
+    silenceThreshold: 0.02,
+    minSilenceDuration: 0.7,
+    pauseMultiplier: 1.5,
+    pauseMode: PauseMode.MULTIPLIER,
+    pauseSeconds: 1.0,
+    minPauseSeconds: 1.5,
+    maxPauseSeconds: 6.0,
+    repeatCount: 1,
+    finalRepeatRate: 1,
+    tempo: 1,
+    pauseBasis: PauseBasis.STRETCHED,
+    preRollMs: 60,
+    postRollMs: 120,
+    fadeInMs: 10,
+    fadeOutMs: 30,
+    hysteresisDb: 6,
+    minSpeechDuration: 0.15,
+    minChunkDuration: 0,
+    maxChunkDuration: 0,
+    noiseReduction: 0,
+    denoiseOutput: false,
+    noiseGate: false,
+};
+
+export const BUILT_IN_PRESETS: Preset[] = [
+    {
+        name: 'Podcast',
+        settings: {
+            ...DEFAULT_SETTINGS,
+            silenceThreshold: 0.03,
+            minSilenceDuration: 0.5,
+            minSpeechDuration: 0.2,
+            pauseMode: PauseMode.CLAMPED_MULTIPLIER,
+            pauseMultiplier: 1.2,
+            minPauseSeconds: 1.0,
+            maxPauseSeconds: 5.0,
+            preRollMs: 80,
+            postRollMs: 150,
+        },
+    },
+    {
+        name: 'Textbook CD',
+        settings: {
+            ...DEFAULT_SETTINGS,
+            silenceThreshold: 0.01,
+            minSilenceDuration: 0.8,
+            pauseMultiplier: 1.5,
+        },
+    },
+    {
+        name: 'Beginner long pauses',
+        settings: {
+            ...DEFAULT_SETTINGS,
+            pauseMode: PauseMode.MULTIPLIER_PLUS_OFFSET,
+            pauseMultiplier: 2.0,
+            pauseSeconds: 1.5,
+            repeatCount: 2,
+        },
+    },
+    {
+        name: 'Noisy recording',
+        settings: {
+            ...DEFAULT_SETTINGS,
+            noiseReduction: 12,
+            denoiseOutput: true,
+            noiseGate: true,
+        },
+    },
+];
+
+type NumericSettingKey = { [K in keyof Settings]: Settings[K] extends number ? K : never }[keyof Settings];
+
+// Ranges of the corresponding sliders in SettingsPanel; stored or imported values
+// outside them could stall or break rendering, e.g. a tempo of 0 or 10^9 repeats
+const SETTING_RANGES: Record<NumericSettingKey, { min: number; max: number }> = {
+    silenceThreshold: { min: 0.001, max: 0.1 },
+    minSilenceDuration: { min: 0.2, max: 2.0 },
+    pauseMultiplier: { min: 0.5, max: 3.0 },
+    pauseSeconds: { min: 0, max: 10 },
+    minPauseSeconds: { min: 0, max: 10 },
+    maxPauseSeconds: { min: 0.5, max: 20 },
+    repeatCount: { min: 1, max: 5 },
+    finalRepeatRate: { min: 0.5, max: 1.5 },
+    tempo: { min: 0.5, max: 1.25 },
+    preRollMs: { min: 0, max: 500 },
+    postRollMs: { min: 0, max: 500 },
+    fadeInMs: { min: 0, max: 100 },
+    fadeOutMs: { min: 0, max: 200 },
+    hysteresisDb: { min: 0, max: 20 },
+    minSpeechDuration: { min: 0.02, max: 1.0 },
+    minChunkDuration: { min: 0, max: 3 },
+    maxChunkDuration: { min: 0, max: 30 },
+    noiseReduction: { min: 0, max: 24 },
+};
+
+function clampSetting(key: NumericSettingKey, value: number): number {
+    const { min, max } = SETTING_RANGES[key];
+    const clamped = Math.max(min, Math.min(max, value));
+    return key === 'repeatCount' ? Math.round(clamped) : clamped;
+}
+
+// Keeps the known settings with a value of the right type, so files from older
+// versions or other people can't put invalid values into the settings. Missing
+// or invalid ones are filled in from the defaults.
+function sanitizeSettings(value: unknown): Settings {
+    if (typeof value !== 'object' || value === null) return { ...DEFAULT_SETTINGS };
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+    for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[]) {
+        const field = input[key];
+        if (key === 'pauseMode') {
+            if (Object.values(PauseMode).includes(field as PauseMode)) result[key] = field;
+        } else if (key === 'pauseBasis') {
+            if (Object.values(PauseBasis).includes(field as PauseBasis)) result[key] = field;
+        } else if (typeof DEFAULT_SETTINGS[key] === 'boolean') {
+            if (typeof field === 'boolean') result[key] = field;
+        } else if (typeof field === 'number' && Number.isFinite(field)) {
+            result[key] = clampSetting(key as NumericSettingKey, field);
+        }
+    }
+    const settings = result as unknown as Settings;
+    // The sliders keep the shortest pause at most the longest; stored values may not
+    if (settings.minPauseSeconds > settings.maxPauseSeconds) {
+        [settings.minPauseSeconds, settings.maxPauseSeconds] = [settings.maxPauseSeconds, settings.minPauseSeconds];
+    }
+    return settings;
+}
+
+function readStorage(key: string): unknown {
+    try {
+        const stored = localStorage.getItem(key);
+        return stored ? JSON.parse(stored) : null;
+    } catch {
+        // Storage can be unavailable (private browsing) or hold something unreadable
+        return null;
+    }
+}
+
+function writeStorage(key: string, value: unknown) {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (err) {
+        console.warn('Could not save to local storage.', err);
+    }
+}
+
+export function settingsEqual(a: Settings, b: Settings): boolean {
+    return (Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[]).every(key => a[key] === b[key]);
+}
+
+// The settings from the last visit, or the defaults
+export function loadStoredSettings(): Settings {
+    return sanitizeSettings(readStorage(SETTINGS_STORAGE_KEY));
+}
+
+export function storeSettings(settings: Settings) {
+    writeStorage(SETTINGS_STORAGE_KEY, settings);
+}
+
+function toPreset(value: unknown): Preset | null {
+    if (typeof value !== 'object' || value === null) return null;
+    const { name, settings } = value as { name?: unknown; settings?: unknown };
+    if (typeof name !== 'string' || name.trim() === '' || typeof settings !== 'object' || settings === null) return null;
+    return { name: name.trim(), settings: sanitizeSettings(settings) };
+}
+
+export function loadUserPresets(): Preset[] {
+    const stored = readStorage(PRESETS_STORAGE_KEY);
+    if (!Array.isArray(stored)) return [];
+    return stored.map(toPreset).filter((preset): preset is Preset => preset !== null);
+}
+
+export function storeUserPresets(presets: Preset[]) {
+    writeStorage(PRESETS_STORAGE_KEY, presets);
+}
+
+export function presetToJson(preset: Preset): string {
+    return JSON.stringify({ type: PRESET_FILE_TYPE, version: 1, name: preset.name, settings: preset.settings }, null, 2);
+}
+
+// Reads a preset file: a single exported preset or a list of them
+export function parsePresetFile(text: string): Preset[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('The preset file is not valid JSON.');
+    }
+    const presets = (Array.isArray(parsed) ? parsed : [parsed]).map(toPreset);
+    if (presets.length === 0 || presets.some(preset => preset === null)) {
+        throw new Error('The file does not contain a valid preset.');
+    }
+    return presets as Preset[];
+}
@@ -0,0 +1,114 @@
+// Band-limited resampling with a Blackman-windowed sinc kernel.
+// Used for changing the playback rate of phrases and converting between sample rates.
+
+const KERNEL_HALF_WIDTH = 16; // Zero crossings on each side of the kernel centre
+const TABLE_RESOLUTION = 512; // Table entries per zero crossing
+
+// One half of the symmetric windowed sinc, tabulated so the inner loop needs no trigonometry
+const kernelTable: Float32Array = (() => {
+    const size = KERNEL_HALF_WIDTH * TABLE_RESOLUTION + 2;
+    const table = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+        const x = i / TABLE_RESOLUTION;
+        if (x >= KERNEL_HALF_WIDTH) break;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+        const n = (x + KERNEL_HALF_WIDTH) / (2 * KERNEL_HALF_WIDTH);
+        const window = 0.42 - 0.5 * Math.cos(2 * Math.PI * n) + 0.08 * Math.cos(4 * Math.PI * n);
+        table[i] = sinc * window;
+    }
+    return table;
+})();
+
+function kernel(x: number): number {
+    const position = Math.abs(x) * TABLE_RESOLUTION;
+    const index = Math.floor(position);
+    if (index >= kernelTable.length - 1) return 0;
+    const fraction = position - index;
+    return kernelTable[index] + (kernelTable[index + 1] - kernelTable[index]) * fraction;
+}
+
+export function resampledLength(length: number, fromRate: number, toRate: number): number {
+    return Math.round(length * toRate / fromRate);
+}
+
+export function resample(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+    if (fromRate === toRate) {
+        return input.slice();
+    }
+
+    const outputLength = resampledLength(input.length, fromRate, toRate);
+    const output = new Float32Array(outputLength);
+    const step = fromRate / toRate;
+    // When downsampling, lower the cutoff to the new Nyquist frequency to avoid aliasing
+    const cutoff = Math.min(1, toRate / fromRate);
+    const halfWidth = KERNEL_HALF_WIDTH / cutoff;
+
+    for (let i = 0; i < outputLength; i++) {
+        const centre = i * step;
+        const first = Math.max(0, Math.ceil(centre - halfWidth));
+        const last = Math.min(input.length - 1, Math.floor(centre + halfWidth));
+        let sum = 0;
+        for (let j = first; j <= last; j++) {
+            sum += input[j] * kernel((j - centre) * cutoff);
+        }
+        output[i] = sum * cutoff;
+    }
+
+    return output;
+}
+
+// Resamples audio that arrives in blocks. The output matches resampling the whole
+// signal at once; only the input still needed by the kernel is kept between blocks.
+export function createStreamingResampler(numberOfChannels: number, fromRate: number, toRate: number) {
+    const step = fromRate / toRate;
+    const cutoff = Math.min(1, toRate / fromRate);
+    const halfWidth = KERNEL_HALF_WIDTH / cutoff;
+
+    let buffers = Array.from({ length: numberOfChannels }, () => new Float32Array(0));
+    // Position of buffers[n][0] in the whole input
+    let bufferStart = 0;
+    let inputLength = 0;
+    let outputPosition = 0;
+
+    const render = (end: number): Float32Array[] => {
+        const count = Math.max(0, end - outputPosition);
+        const output = buffers.map(buffer => {
+            const data = new Float32Array(count);
+            for (let n = 0; n < count; n++) {
+                const centre = (outputPosition + n) * step;
+                const first = Math.max(0, Math.ceil(centre - halfWidth));
+                const last = Math.min(inputLength - 1, Math.floor(centre + halfWidth));
+                let sum = 0;
+                for (let j = first; j <= last; j++) {
+                    sum += buffer[j - bufferStart] * kernel((j - centre) * cutoff);
+                }
+                data[n] = sum * cutoff;
+            }
+            return data;
+        });
+        outputPosition += count;
+
+        // Drop input that no later output sample reaches
+        const keepFrom = Math.max(bufferStart, Math.ceil(outputPosition * step - halfWidth));
+        buffers = buffers.map(buffer => buffer.slice(keepFrom - bufferStart));
+        bufferStart = keepFrom;
+        return output;
+    };
+
+    return {
+        process(block: Float32Array[]): Float32Array[] {
+            buffers = buffers.map((buffer, channel) => {
+                const joined = new Float32Array(buffer.length + block[channel].length);
+                joined.set(buffer);
+                joined.set(block[channel], buffer.length);
+                return joined;
+            });
+            inputLength += block[0].length;
+            // Output samples whose kernel lies entirely inside the input received so far
+            return render(Math.floor((inputLength - 1 - halfWidth) / step) + 1);
+        },
+        flush(): Float32Array[] {
+            return render(resampledLength(inputLength, fromRate, toRate));
+        },
+    };
+}
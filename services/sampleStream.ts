@@ -0,0 +1,97 @@
+// Output is produced and encoded a block at a time, so the complete paced or
+// merged audio never has to exist in memory as one buffer.
+
+export interface SampleSink {
+    write(channels: Float32Array[]): void;
+    writeSilence(length: number): void;
+}
+
+// Encodes blocks of samples as they arrive and returns the finished file at the end
+export interface StreamingEncoder {
+    encode(block: Float32Array[]): void;
+    finish(): Blob;
+}
+
+// Regroups arbitrary writes into fixed-size blocks. The block arrays are reused,
+// so `onBlock` has to consume them before returning.
+export function createBlockWriter(
+    numberOfChannels: number,
+    blockSize: number,
+    onBlock: (block: Float32Array[]) => void
+): SampleSink & { flush(): void } {
+    const block = Array.from({ length: numberOfChannels }, () => new Float32Array(blockSize));
+    let filled = 0;
+
+    const emit = () => {
+        onBlock(filled === blockSize ? block : block.map(channel => channel.subarray(0, filled)));
+        filled = 0;
+    };
+
+    return {
+        write(channels: Float32Array[]) {
+            const length = channels[0].length;
+            let offset = 0;
+            while (offset < length) {
+                const count = Math.min(blockSize - filled, length - offset);
+                for (let channel = 0; channel < numberOfChannels; channel++) {
+                    block[channel].set(channels[channel].subarray(offset, offset + count), filled);
+                }
+                filled += count;
+                offset += count;
+                if (filled === blockSize) emit();
+            }
+        },
+        writeSilence(length: number) {
+            let remaining = length;
+            while (remaining > 0) {
+                const count = Math.min(blockSize - filled, remaining);
+                for (let channel = 0; channel < numberOfChannels; channel++) {
+                    block[channel].fill(0, filled, filled + count);
+                }
+                filled += count;
+                remaining -= count;
+                if (filled === blockSize) emit();
+            }
+        },
+        flush() {
+            if (filled > 0) emit();
+        },
+    };
+}
+
+// Collects encoded output. Small parts are folded into Blobs every few megabytes,
+// which lets the browser move them out of the worker's heap (to disk if needed).
+export function createBlobBuilder(type: string) {
+    const FOLD_SIZE = 4 * 1024 * 1024;
+    const blobs: Blob[] = [];
+    let pending: Uint8Array[] = [];
+    let pendingSize = 0;
+
+    const fold = () => {
+        if (pending.length === 0) return;
+        blobs.push(new Blob(pending));
+        pending = [];
+        pendingSize = 0;
+    };
+
+    let size = 0;
+
+    return {
+        get size() {
+            return size;
+        },
+        append(data: Uint8Array) {
+            if (data.length === 0) return;
+            // Copy, since encoders tend to reuse their output buffers
+            pending.push(data.slice());
+            pendingSize += data.length;
+            size += data.length;
+            if (pendingSize >= FOLD_SIZE) fold();
+        },
+        // `prefix` is for headers that can only be written once the size is known
+        finish(prefix?: Uint8Array): Blob {
+            fold();
+            return new Blob(prefix ? [prefix, ...blobs] : blobs, { type });
+        },
+    };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { FrameLevels, Settings } from '../types';
+import { DEFAULT_SETTINGS } from './presets';
+import { detectSpeechChunks } from './speechDetection';
+
+const SAMPLE_RATE = 1000;
+const FRAME_SIZE = 20;
+const SILENCE_DB = -60;
+const SPEECH_DB = -10;
+
+// Frame levels of `duration` seconds of silence with the given spans at their levels
+function levelsWith(duration: number, spans: { start: number; end: number; db?: number }[]): FrameLevels {
+    const frames = Math.round(duration * SAMPLE_RATE / FRAME_SIZE);
+    const levels = new Float32Array(frames).fill(SILENCE_DB);
+    const frame = (seconds: number) => Math.round(seconds * SAMPLE_RATE / FRAME_SIZE);
+    for (const span of spans) levels.fill(span.db ?? SPEECH_DB, frame(span.start), frame(span.end));
+    return { sampleRate: SAMPLE_RATE, frameSize: FRAME_SIZE, levels, length: frames * FRAME_SIZE };
+}
+
+const settingsWith = (overrides: Partial<Settings>): Settings => ({ ...DEFAULT_SETTINGS, minSilenceDuration: 0.2, ...overrides });
+
+// Chunks in seconds, which read more easily than samples
+const detect = (levels: FrameLevels, settings: Settings) =>
+    detectSpeechChunks(levels, settings).map(chunk => ({ start: chunk.start / SAMPLE_RATE, end: chunk.end / SAMPLE_RATE }));
+
+describe('detectSpeechChunks', () => {
+    it('starts phrases above the start threshold and ends them after enough silence', () => {
+        // With the default threshold, phrases start at -28 dB and end below -34 dB
+        const levels = levelsWith(6, [
+            { start: 0.5, end: 1.5, db: -31 },
+            { start: 2, end: 3 },
+            { start: 3, end: 3.5, db: -31 },
+            { start: 3.5, end: 3.6, db: SILENCE_DB },
+            { start: 3.6, end: 4 },
+            { start: 5, end: 5.1 },
+        ]);
+        expect(detect(levels, settingsWith({}))).toEqual([{ start: 2, end: 4 }]);
+    });
+
+    it('merges phrases shorter than the minimum into the nearer neighbour', () => {
+        const levels = levelsWith(12, [
+            { start: 1, end: 3 },
+            { start: 3.5, end: 3.8 },
+            { start: 6.5, end: 6.8 },
+            { start: 7, end: 9 },
+        ]);
+        expect(detect(levels, settingsWith({ minChunkDuration: 1 }))).toEqual([
+            { start: 1, end: 3.8 },
+            { start: 6.5, end: 9 },
+        ]);
+    });
+
+    it('drops short phrases that are far from any other', () => {
+        const levels = levelsWith(12, [{ start: 1, end: 3 }, { start: 8, end: 8.4 }]);
+        expect(detect(levels, settingsWith({ minChunkDuration: 1 }))).toEqual([{ start: 1, end: 3 }]);
+    });
+
+    it('splits long phrases at their quietest point', () => {
+        const levels = levelsWith(12, [
+            { start: 1, end: 9 },
+            { start: 4, end: 4.1, db: -25 },
+        ]);
+        expect(detect(levels, settingsWith({ maxChunkDuration: 5 }))).toEqual([
+            { start: 1, end: 4.04 },
+            { start: 4.04, end: 9 },
+        ]);
+    });
+
+    it('keeps every split part between the minimum and maximum length', () => {
+        const levels = levelsWith(12, [{ start: 1, end: 11 }]);
+        const chunks = detect(levels, settingsWith({ minChunkDuration: 3, maxChunkDuration: 4 }));
+
+        expect(chunks[0].start).toBe(1);
+        expect(chunks[chunks.length - 1].end).toBe(11);
+        for (const chunk of chunks) {
+            const length = Math.round((chunk.end - chunk.start) * 1000) / 1000;
+            expect(length).toBeGreaterThanOrEqual(3);
+            expect(length).toBeLessThanOrEqual(4);
+        }
+    });
+
+    it('keeps phrases whole that cannot be split into two parts of the minimum length', () => {
+        const levels = levelsWith(12, [{ start: 1, end: 4.5 }]);
+        expect(detect(levels, settingsWith({ minChunkDuration: 2, maxChunkDuration: 3 }))).toEqual([{ start: 1, end: 4.5 }]);
+    });
+});
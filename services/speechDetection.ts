@@ -0,0 +1,303 @@
+import { AudioSource, CalibrationResult, FrameLevels, PcmAudio, Settings, SpeechChunk } from '../types';
+
+// Speech detection works on short analysis frames rather than individual samples,
+// so zero crossings inside a word don't register as silence.
+const FRAME_DURATION = 0.02; // 20 ms
+const MIN_LEVEL_DB = -120;
+
+function amplitudeToDb(amplitude: number): number {
+    return amplitude > 0 ? Math.max(MIN_LEVEL_DB, 20 * Math.log10(amplitude)) : MIN_LEVEL_DB;
+}
+
+// Seconds of audio read from an AudioSource at a time while measuring levels
+const READ_WINDOW_DURATION = 10;
+
+function frameSizeFor(sampleRate: number): number {
+    return Math.max(1, Math.round(sampleRate * FRAME_DURATION));
+}
+
+// Frame levels only depend on the buffer, so they are computed once per decoded file.
+// This keeps re-detection cheap while settings are being adjusted.
+const frameLevelCache = new WeakMap<PcmAudio, FrameLevels>();
+
+export function getFrameLevels(audioBuffer: PcmAudio): FrameLevels {
+    let cached = frameLevelCache.get(audioBuffer);
+    if (!cached) {
+        const { sampleRate, length } = audioBuffer;
+        const frameSize = frameSizeFor(sampleRate);
+        cached = { sampleRate, frameSize, levels: computeFrameLevels(audioBuffer, frameSize), length };
+        frameLevelCache.set(audioBuffer, cached);
+    }
+    return cached;
+}
+
+// Adds the squares of `channelData`, which starts at sample `offset` of the file, to their frames.
+function accumulateSquares(sumOfSquares: Float64Array, channelData: Float32Array, offset: number, frameSize: number) {
+    for (let i = 0; i < channelData.length; i++) {
+        sumOfSquares[Math.floor((offset + i) / frameSize)] += channelData[i] * channelData[i];
+    }
+}
+
+// Turns per-frame sums of squares into RMS levels in dBFS, averaged over all channels.
+function toFrameLevels(sumOfSquares: Float64Array, frameSize: number, length: number, numberOfChannels: number): Float32Array {
+    const levels = new Float32Array(sumOfSquares.length);
+    for (let frame = 0; frame < sumOfSquares.length; frame++) {
+        const samplesInFrame = Math.min(frameSize, length - frame * frameSize) * numberOfChannels;
+        levels[frame] = amplitudeToDb(Math.sqrt(sumOfSquares[frame] / samplesInFrame));
+    }
+    return levels;
+}
+
+function computeFrameLevels(audioBuffer: PcmAudio, frameSize: number): Float32Array {
+    const { numberOfChannels, length } = audioBuffer;
+    const sumOfSquares = new Float64Array(Math.ceil(length / frameSize));
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+        accumulateSquares(sumOfSquares, audioBuffer.getChannelData(channel), 0, frameSize);
+    }
+    return toFrameLevels(sumOfSquares, frameSize, length, numberOfChannels);
+}
+
+// Same as computeFrameLevels, but reads the audio a window at a time so the
+// whole file never has to be copied into the worker.
+export async function measureFrameLevels(source: AudioSource, onProgress?: (fraction: number) => void): Promise<FrameLevels> {
+    const { numberOfChannels, length, sampleRate } = source;
+    const frameSize = frameSizeFor(sampleRate);
+    const windowLength = Math.ceil(READ_WINDOW_DURATION * sampleRate / frameSize) * frameSize;
+    const sumOfSquares = new Float64Array(Math.ceil(length / frameSize));
+
+    for (let start = 0; start < length; start += windowLength) {
+        const channels = await source.read(start, Math.min(length, start + windowLength));
+        for (const channelData of channels) {
+            accumulateSquares(sumOfSquares, channelData, start, frameSize);
+        }
+        onProgress?.(Math.min(1, (start + windowLength) / length));
+    }
+
+    return { sampleRate, frameSize, levels: toFrameLevels(sumOfSquares, frameSize, length, numberOfChannels), length };
+}
+
+// A phrase too short to keep is merged into a neighbour at most this many
+// seconds away; further from both, it's taken for noise and dropped
+const MAX_MERGE_GAP = 2;
+// Long phrases are split where the level averaged over this many frames is lowest
+const SPLIT_SEARCH_FRAMES = 5;
+
+interface FrameRange {
+    start: number;
+    end: number;
+}
+
+function mergeShortChunks(chunks: FrameRange[], minFrames: number, maxGapFrames: number): FrameRange[] {
+    const result = chunks.map(chunk => ({ ...chunk }));
+    let index = 0;
+    while (index < result.length) {
+        const chunk = result[index];
+        if (chunk.end - chunk.start >= minFrames) {
+            index++;
+            continue;
+        }
+        const gapBefore = index > 0 ? chunk.start - result[index - 1].end : Infinity;
+        const gapAfter = index < result.length - 1 ? result[index + 1].start - chunk.end : Infinity;
+        if (Math.min(gapBefore, gapAfter) > maxGapFrames) {
+            result.splice(index, 1);
+        } else if (gapBefore <= gapAfter) {
+            result[index - 1].end = chunk.end;
+            result.splice(index, 1);
+        } else {
+            // The merged chunk may still be too short, so it's checked again
+            result[index + 1].start = chunk.start;
+            result.splice(index, 1);
+        }
+    }
+    return result;
+}
+
+// Splits at the quietest point that leaves both parts at least `minFrames` long,
+// and again until every part fits. `maxFrames` must be at least twice `minFrames`,
+// so a chunk too long to keep always has room for two parts of the minimum length
+function splitLongChunk(chunk: FrameRange, levels: Float32Array, minFrames: number, maxFrames: number): FrameRange[] {
+    const length = chunk.end - chunk.start;
+    if (length <= maxFrames) return [chunk];
+
+    const margin = Math.max(1, minFrames);
+    let quietest = chunk.start + Math.floor(length / 2);
+    let quietestLevel = Infinity;
+    for (let frame = chunk.start + margin; frame <= chunk.end - margin; frame++) {
+        let sum = 0;
+        let count = 0;
+        for (let i = frame - (SPLIT_SEARCH_FRAMES >> 1); i <= frame + (SPLIT_SEARCH_FRAMES >> 1); i++) {
+            if (i >= chunk.start && i < chunk.end) {
+                sum += levels[i];
+                count++;
+            }
+        }
+        if (sum / count < quietestLevel) {
+            quietestLevel = sum / count;
+            quietest = frame;
+        }
+    }
+    return [
+        ...splitLongChunk({ start: chunk.start, end: quietest }, levels, minFrames, maxFrames),
+        ...splitLongChunk({ start: quietest, end: chunk.end }, levels, minFrames, maxFrames),
+    ];
+}
+
+export async function detectSpeechChunksInSource(
+    source: AudioSource,
+    settings: Settings,
+    onProgress?: (fraction: number) => void
+): Promise<SpeechChunk[]> {
+    return detectSpeechChunks(await measureFrameLevels(source, onProgress), settings);
+}
+
+export function detectSpeechChunks(frameLevels: FrameLevels, settings: Settings): SpeechChunk[] {
+    const { silenceThreshold, minSilenceDuration, hysteresisDb, minSpeechDuration, minChunkDuration, maxChunkDuration } = settings;
+    const { frameSize, levels, length } = frameLevels;
+
+    // Hysteresis: speech has to rise above the start threshold to begin a phrase,
+    // but only has to stay above the lower stop threshold to keep it going.
+    const stopThresholdDb = amplitudeToDb(silenceThreshold);
+    const startThresholdDb = stopThresholdDb + hysteresisDb;
+    const minSilenceFrames = Math.max(1, Math.round(minSilenceDuration / FRAME_DURATION));
+    const minSpeechFrames = Math.max(1, Math.round(minSpeechDuration / FRAME_DURATION));
+
+    let chunks: FrameRange[] = [];
+    const pushChunk = (startFrame: number, endFrame: number) => {
+        if (endFrame - startFrame >= minSpeechFrames) {
+            chunks.push({ start: startFrame, end: endFrame });
+        }
+    };
+
+    let speechStart = -1;
+    let silenceStart = -1;
+
+    for (let frame = 0; frame < levels.length; frame++) {
+        const level = levels[frame];
+
+        if (speechStart < 0) {
+            if (level >= startThresholdDb) {
+                speechStart = frame;
+            }
+            continue;
+        }
+
+        if (silenceStart < 0) {
+            if (level < stopThresholdDb) {
+                silenceStart = frame;
+            }
+        } else if (level >= startThresholdDb) {
+            // Speech resumed before the silence was long enough to end the phrase
+            silenceStart = -1;
+        }
+
+        if (silenceStart >= 0 && frame - silenceStart + 1 >= minSilenceFrames) {
+            pushChunk(speechStart, silenceStart);
+            speechStart = -1;
+            silenceStart = -1;
+        }
+    }
+
+    // Add the last chunk if the audio ends with speech
+    if (speechStart >= 0) {
+        pushChunk(speechStart, silenceStart >= 0 ? silenceStart : levels.length);
+    }
+
+    // Length limits of 0 are off
+    const minChunkFrames = Math.round(minChunkDuration / FRAME_DURATION);
+    const maxChunkFrames = Math.round(maxChunkDuration / FRAME_DURATION);
+    if (minChunkFrames > 0) {
+        chunks = mergeShortChunks(chunks, minChunkFrames, Math.round(MAX_MERGE_GAP / FRAME_DURATION));
+    }
+    if (maxChunkFrames > 0) {
+        chunks = chunks.flatMap(chunk => splitLongChunk(chunk, levels, minChunkFrames, Math.max(maxChunkFrames, 2 * minChunkFrames)));
+    }
+
+    return chunks.map(chunk => ({
+        start: chunk.start * frameSize,
+        end: Math.min(chunk.end * frameSize, length),
+    }));
+}
+
+// Frames this quiet are treated as digital silence (e.g. padding) and left out of
+// the noise floor estimate, otherwise the proposed threshold ends up far too low.
+const DIGITAL_SILENCE_DB = -90;
+
+// Ranges of the corresponding sliders in SettingsPanel
+const THRESHOLD_RANGE = { min: 0.001, max: 0.1 };
+const SILENCE_DURATION_RANGE = { min: 0.2, max: 2.0 };
+const MIN_INTERIOR_GAP = 0.15; // Shorter gaps are usually inside a word
+
+function levelPercentile(histogram: Uint32Array, total: number, percentile: number): number {
+    const target = total * percentile;
+    let count = 0;
+    for (let bin = 0; bin < histogram.length; bin++) {
+        count += histogram[bin];
+        if (count >= target) {
+            return MIN_LEVEL_DB + bin;
+        }
+    }
+    return 0;
+}
+
+export function calibrateSettings(frameLevels: FrameLevels, settings: Settings): CalibrationResult {
+    const { levels } = frameLevels;
+
+    // 1 dB histogram of frame levels from MIN_LEVEL_DB up to 0 dBFS
+    const histogram = new Uint32Array(-MIN_LEVEL_DB + 1);
+    let counted = 0;
+    for (const level of levels) {
+        if (level > DIGITAL_SILENCE_DB) {
+            histogram[Math.min(histogram.length - 1, Math.floor(level - MIN_LEVEL_DB))]++;
+            counted++;
+        }
+    }
+
+    if (counted === 0) {
+        throw new Error('The file appears to be completely silent.');
+    }
+
+    const noiseFloorDb = levelPercentile(histogram, counted, 0.1);
+    const speechLevelDb = levelPercentile(histogram, counted, 0.95);
+
+    // Place the threshold about a third of the way from the noise floor to the speech level,
+    // keeping room for the start margin below typical speech.
+    let thresholdDb = noiseFloorDb + (speechLevelDb - noiseFloorDb) * 0.35;
+    thresholdDb = Math.min(thresholdDb, speechLevelDb - settings.hysteresisDb - 6);
+    thresholdDb = Math.max(thresholdDb, noiseFloorDb + 3);
+
+    const silenceThreshold = Math.min(THRESHOLD_RANGE.max, Math.max(THRESHOLD_RANGE.min,
+        Math.round(Math.pow(10, thresholdDb / 20) * 1000) / 1000));
+
+    // Collect the silent gaps between sounds and use the median as the sentence-break length
+    const gaps: number[] = [];
+    let gapStart = -1;
+    let seenSound = false;
+    for (let frame = 0; frame < levels.length; frame++) {
+        if (levels[frame] < thresholdDb) {
+            if (gapStart < 0 && seenSound) gapStart = frame;
+        } else {
+            if (gapStart >= 0) {
+                const gapDuration = (frame - gapStart) * FRAME_DURATION;
+                if (gapDuration >= MIN_INTERIOR_GAP) gaps.push(gapDuration);
+                gapStart = -1;
+            }
+            seenSound = true;
+        }
+    }
+
+    let minSilenceDuration = settings.minSilenceDuration;
+    if (gaps.length > 0) {
+        gaps.sort((a, b) => a - b);
+        const median = gaps[Math.floor(gaps.length / 2)];
+        minSilenceDuration = Math.min(SILENCE_DURATION_RANGE.max, Math.max(SILENCE_DURATION_RANGE.min,
+            Math.round(median / 0.05) * 0.05));
+    }
+
+    const expectedPhraseCount = detectSpeechChunks(frameLevels, {
+        ...settings,
+        silenceThreshold,
+        minSilenceDuration,
+    }).length;
+
+    return { noiseFloorDb, speechLevelDb, silenceThreshold, minSilenceDuration, expectedPhraseCount };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { FrameLevels, SubtitleTimingMode } from '../types';
+import { DEFAULT_SETTINGS } from './presets';
+import { chunksFromCues, cueTextForChunks, parseSubtitles, parseTranscript } from './subtitles';
+
+// Four seconds at 1 kHz in 20 ms frames, with speech from 1.0 to 2.0 s
+function speechLevels(): FrameLevels {
+    const levels = new Float32Array(200).fill(-60);
+    levels.fill(-10, 50, 100);
+    return { sampleRate: 1000, frameSize: 20, levels, length: 4000 };
+}
+
+describe('parseSubtitles', () => {
+    it('parses SRT cues and removes formatting tags', () => {
+        const srt = '\uFEFF1\r\n00:00:01,500 --> 00:00:03,000\r\n<i>Hello</i> there\r\nfriend\r\n\r\n2\r\n01:00:00,000 --> 01:00:02,25\r\nBye\r\n';
+        expect(parseSubtitles(srt)).toEqual([
+            { start: 1.5, end: 3, text: 'Hello there\nfriend' },
+            { start: 3600, end: 3602.25, text: 'Bye' },
+        ]);
+    });
+
+    it('parses WebVTT cues with short timestamps and settings, skipping notes and empty cues', () => {
+        const vtt = 'WEBVTT\n\nNOTE a comment\n\n00:05.000 --> 00:06.000 align:start\nLater\n\n'
+            + 'intro\n00:01.000 --> 00:02.000\nFirst\n\n00:03.000 --> 00:03.000\nEmpty\n';
+        expect(parseSubtitles(vtt)).toEqual([
+            { start: 1, end: 2, text: 'First' },
+            { start: 5, end: 6, text: 'Later' },
+        ]);
+    });
+
+    it('rejects files without cues', () => {
+        expect(() => parseSubtitles('WEBVTT\n\nNOTE nothing here\n')).toThrow('No subtitle cues found');
+    });
+});
+
+describe('chunksFromCues', () => {
+    it('uses cue times as they are, cutting overlaps and the end of the audio', () => {
+        const cues = [
+            { start: 0.5, end: 1.5, text: 'a' },
+            { start: 1.2, end: 2, text: 'b' },
+            { start: 3.5, end: 5, text: 'c' },
+        ];
+        expect(chunksFromCues(cues, SubtitleTimingMode.EXACT, speechLevels(), DEFAULT_SETTINGS)).toEqual([
+            { start: 500, end: 1200 },
+            { start: 1200, end: 2000 },
+            { start: 3500, end: 4000 },
+        ]);
+    });
+
+    it('moves cue edges to nearby speech boundaries when refining', () => {
+        const cues = [{ start: 0.8, end: 2.3, text: 'close' }];
+        expect(chunksFromCues(cues, SubtitleTimingMode.REFINE, speechLevels(), DEFAULT_SETTINGS)).toEqual([{ start: 1000, end: 2000 }]);
+
+        const far = [{ start: 0.2, end: 3.5, text: 'far' }];
+        expect(chunksFromCues(far, SubtitleTimingMode.REFINE, speechLevels(), DEFAULT_SETTINGS)).toEqual([{ start: 200, end: 3500 }]);
+    });
+});
+
+describe('cueTextForChunks', () => {
+    it('gives each phrase the text of the cues centred in it', () => {
+        const cues = [
+            { start: 0, end: 1, text: 'one' },
+            { start: 1, end: 2, text: 'two' },
+            { start: 5, end: 6, text: 'three' },
+        ];
+        const chunks = [{ start: 0, end: 2000 }, { start: 2000, end: 4000 }, { start: 5000, end: 6000 }];
+        expect(cueTextForChunks(chunks, cues, 1000)).toEqual(['one\ntwo', '', 'three']);
+    });
+});
+
+describe('parseTranscript', () => {
+    it('keeps one trimmed phrase per non-blank line', () => {
+        expect(parseTranscript('\uFEFF  First line \r\n\r\nSecond\n\n')).toEqual(['First line', 'Second']);
+    });
+
+    it('rejects an empty transcript', () => {
+        expect(() => parseTranscript(' \n\n')).toThrow('The transcript is empty');
+    });
+});
@@ -0,0 +1,112 @@
+import { FrameLevels, Settings, SpeechChunk, SubtitleCue, SubtitleTimingMode } from '../types';
+import { detectSpeechChunks } from './speechDetection';
+
+// How far a cue edge may move to reach a detected speech boundary when refining
+const REFINE_TOLERANCE = 0.5; // seconds
+
+// Accepts hh:mm:ss,mmm (SRT) as well as hh:mm:ss.mmm and mm:ss.mmm (WebVTT)
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+const TIMING_LINE = new RegExp(`${TIMESTAMP.source}\\s*-->\\s*${TIMESTAMP.source}`);
+
+function toSeconds(hours: string | undefined, minutes: string, seconds: string, fraction: string): number {
+    return (hours ? parseInt(hours, 10) * 3600 : 0)
+        + parseInt(minutes, 10) * 60
+        + parseInt(seconds, 10)
+        + parseInt(fraction.padEnd(3, '0'), 10) / 1000;
+}
+
+// Parses SRT and WebVTT files. Formatting tags are removed from the cue text.
+export function parseSubtitles(text: string): SubtitleCue[] {
+    const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+    const cues: SubtitleCue[] = [];
+
+    for (const block of blocks) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+        // Headers, NOTE and STYLE blocks have no timing line
+        if (timingIndex === -1) continue;
+
+        const match = TIMING_LINE.exec(lines[timingIndex])!;
+        const start = toSeconds(match[1], match[2], match[3], match[4]);
+        const end = toSeconds(match[5], match[6], match[7], match[8]);
+        const cueText = lines.slice(timingIndex + 1)
+            .map(line => line.replace(/<[^>]*>/g, '').trim())
+            .filter(line => line.length > 0)
+            .join('\n');
+        if (end > start) {
+            cues.push({ start, end, text: cueText });
+        }
+    }
+
+    if (cues.length === 0) {
+        throw new Error('No subtitle cues found. Please upload an SRT or WebVTT file.');
+    }
+    return cues.sort((a, b) => a.start - b.start);
+}
+
+// The boundary in `candidates` nearest to `position`, if one is within `tolerance`
+function nearestBoundary(position: number, candidates: number[], tolerance: number): number {
+    let best = position;
+    let bestDistance = tolerance;
+    for (const candidate of candidates) {
+        const distance = Math.abs(candidate - position);
+        if (distance <= bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+// Snaps the cue's start to a nearby detected speech onset and its end to a nearby speech end.
+// Subtitle timing is often a little early or late; edges without a boundary nearby are kept.
+function refineCue(chunk: SpeechChunk, detected: SpeechChunk[], tolerance: number): SpeechChunk {
+    const start = nearestBoundary(chunk.start, detected.map(d => d.start), tolerance);
+    const end = nearestBoundary(chunk.end, detected.map(d => d.end), tolerance);
+    return end > start ? { start, end } : chunk;
+}
+
+// Turns subtitle cues into phrases, in place of detectSpeechChunks
+export function chunksFromCues(cues: SubtitleCue[], timingMode: SubtitleTimingMode, frameLevels: FrameLevels, settings: Settings): SpeechChunk[] {
+    const { sampleRate, length } = frameLevels;
+    const detected = timingMode === SubtitleTimingMode.REFINE ? detectSpeechChunks(frameLevels, settings) : null;
+    const tolerance = Math.round(REFINE_TOLERANCE * sampleRate);
+
+    const chunks: SpeechChunk[] = [];
+    for (const cue of cues) {
+        let chunk = {
+            start: Math.max(0, Math.round(cue.start * sampleRate)),
+            end: Math.min(length, Math.round(cue.end * sampleRate)),
+        };
+        if (detected) chunk = refineCue(chunk, detected, tolerance);
+
+        // Overlapping cues are cut where the later one starts, so phrases never overlap
+        const previous = chunks[chunks.length - 1];
+        if (previous && chunk.start < previous.end) {
+            previous.end = Math.max(previous.start, chunk.start);
+        }
+        if (chunk.end > chunk.start) chunks.push(chunk);
+    }
+    return chunks.filter(chunk => chunk.end > chunk.start);
+}
+
+// The text of every cue whose midpoint falls inside each phrase. Matching by
+// position keeps the text aligned after phrases were split, merged or deleted.
+export function cueTextForChunks(chunks: SpeechChunk[], cues: SubtitleCue[], sampleRate: number): string[] {
+    return chunks.map(chunk => cues
+        .filter(cue => {
+            const midpoint = (cue.start + cue.end) / 2 * sampleRate;
+            return midpoint >= chunk.start && midpoint < chunk.end;
+        })
+        .map(cue => cue.text)
+        .join('\n'));
+}
+
+// A plain-text transcript with one phrase per line; blank lines are skipped
+export function parseTranscript(text: string): string[] {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r\n?|\n/).map(line => line.trim()).filter(line => line.length > 0);
+    if (lines.length === 0) {
+        throw new Error('The transcript is empty. Please upload a text file with one phrase per line.');
+    }
+    return lines;
+}
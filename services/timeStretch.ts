@@ -0,0 +1,102 @@
+import { averageChannels } from './channelMixing';
+import { resample } from './resampler';
+
+// Pitch-preserving time stretching by WSOLA (waveform similarity overlap-add):
+// the output is built from overlapping windowed frames of the input, each
+// taken from near where the tempo says it should come from, shifted to where
+// it best continues the frame before it so the waveform stays in phase.
+
+// Seconds per frame, which overlap by half
+const FRAME_DURATION = 0.03;
+// How far a frame may move from its nominal position, in seconds
+const SEARCH_TOLERANCE = 0.01;
+// The coarse search compares about this many samples per second
+const COARSE_SEARCH_RATE = 8000;
+
+export function stretchedLength(length: number, tempo: number): number {
+    return Math.round(length / tempo);
+}
+
+// Normalized cross-correlation of `length` samples at `a` and `b`, every `step`th one
+function similarity(signal: Float32Array, a: number, b: number, length: number, step: number): number {
+    let product = 0;
+    let energy = 0;
+    for (let i = 0; i < length; i += step) {
+        const value = signal[b + i];
+        product += signal[a + i] * value;
+        energy += value * value;
+    }
+    return energy > 0 ? product / Math.sqrt(energy) : 0;
+}
+
+// The frame start within `tolerance` of `nominal` whose first `length` samples
+// look most like those at `target`: coarsely first, then sample by sample
+function bestFrameStart(signal: Float32Array, target: number, nominal: number, tolerance: number, length: number, step: number, maxStart: number): number {
+    const lowest = Math.max(0, nominal - tolerance);
+    const highest = Math.min(maxStart, nominal + tolerance);
+    let best = Math.min(Math.max(nominal, 0), maxStart);
+    let bestScore = -Infinity;
+    for (let start = lowest; start <= highest; start += step) {
+        const score = similarity(signal, target, start, length, step);
+        if (score > bestScore) {
+            bestScore = score;
+            best = start;
+        }
+    }
+    const coarse = best;
+    for (let start = Math.max(lowest, coarse - step + 1); start <= Math.min(highest, coarse + step - 1); start++) {
+        const score = similarity(signal, target, start, length, 1);
+        if (score > bestScore) {
+            bestScore = score;
+            best = start;
+        }
+    }
+    return best;
+}
+
+// Plays the channels at `tempo` times their speed without changing pitch.
+// The result has stretchedLength() samples; all channels share the frame
+// positions, found on their average, so the stereo image holds.
+export function timeStretch(channels: Float32Array[], tempo: number, sampleRate: number): Float32Array[] {
+    const length = channels[0].length;
+    const outputLength = stretchedLength(length, tempo);
+    const frameLength = 2 * Math.round(FRAME_DURATION * sampleRate / 2);
+    if (tempo === 1) return channels.map(channel => channel.slice());
+    // Too short to hold frames; at this length the pitch change can't be heard
+    if (length < 2 * frameLength) return channels.map(channel => resample(channel, tempo, 1));
+
+    const hop = frameLength / 2;
+    const tolerance = Math.round(SEARCH_TOLERANCE * sampleRate);
+    const step = Math.max(1, Math.round(sampleRate / COARSE_SEARCH_RATE));
+    const maxStart = length - frameLength;
+    const mono = averageChannels(channels);
+    const window = Float32Array.from({ length: frameLength }, (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / frameLength));
+
+    const output = channels.map(() => new Float32Array(outputLength + frameLength));
+    const weights = new Float32Array(outputLength + frameLength);
+    let previousStart = 0;
+    for (let outputStart = 0; outputStart < outputLength; outputStart += hop) {
+        const nominal = Math.round(outputStart * tempo);
+        // The frame should continue the way the previous one's second half does
+        const start = outputStart === 0
+            ? 0
+            : bestFrameStart(mono, Math.min(previousStart + hop, maxStart), nominal, tolerance, hop, step, maxStart);
+        for (let channel = 0; channel < channels.length; channel++) {
+            const input = channels[channel];
+            const out = output[channel];
+            for (let i = 0; i < frameLength; i++) out[outputStart + i] += input[start + i] * window[i];
+        }
+        for (let i = 0; i < frameLength; i++) weights[outputStart + i] += window[i];
+        previousStart = start;
+    }
+
+    // Dividing by the summed windows restores the level where frames don't
+    // overlap in full, at the very start and end
+    return output.map(channel => {
+        const result = channel.subarray(0, outputLength);
+        for (let i = 0; i < outputLength; i++) {
+            if (weights[i] > 1e-9) result[i] /= weights[i];
+        }
+        return result;
+    });
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { OutputFormat, TimingFormat } from '../types';
+import { PhraseTiming } from './pacing';
+import { createTimingFile, timingFileExtensionFor } from './timingExport';
+
+// At 1 kHz, sample positions read as milliseconds
+const SAMPLE_RATE = 1000;
+
+const TIMINGS: PhraseTiming[] = [
+    { original: { start: 500, end: 1500 }, paced: [{ start: 0, end: 1000 }, { start: 2000, end: 3000 }] },
+    { original: { start: 2000, end: 2250 }, paced: [{ start: 3661001, end: 3661251 }] },
+];
+
+function timingFile(format: TimingFormat, options: { timeline?: 'paced' | 'original'; phraseTexts?: string[] } = {}): Promise<string> {
+    return createTimingFile(format, TIMINGS, {
+        sampleRate: SAMPLE_RATE,
+        timeline: options.timeline ?? 'paced',
+        audioFileName: 'lesson "one".mp3',
+        audioFormat: OutputFormat.MP3,
+        phraseTexts: options.phraseTexts,
+    }).text();
+}
+
+describe('createTimingFile', () => {
+    it('writes Audacity labels for each repetition on the paced timeline', async () => {
+        expect(await timingFile(TimingFormat.AUDACITY)).toBe(
+            '0.000000\t1.000000\tPhrase 1 (1/2)\n'
+            + '2.000000\t3.000000\tPhrase 1 (2/2)\n'
+            + '3661.001000\t3661.251000\tPhrase 2\n'
+        );
+    });
+
+    it('writes one label per phrase on the original timeline', async () => {
+        expect(await timingFile(TimingFormat.AUDACITY, { timeline: 'original' })).toBe(
+            '0.500000\t1.500000\tPhrase 1\n2.000000\t2.250000\tPhrase 2\n'
+        );
+    });
+
+    it('writes SRT and WebVTT cues with their own decimal separators', async () => {
+        const srt = await timingFile(TimingFormat.SRT);
+        expect(srt).toContain('1\n00:00:00,000 --> 00:00:01,000\nPhrase 1 (1/2)\n');
+        expect(srt).toContain('\n3\n01:01:01,001 --> 01:01:01,251\nPhrase 2\n');
+
+        const vtt = await timingFile(TimingFormat.WEBVTT, { timeline: 'original' });
+        expect(vtt).toBe(
+            'WEBVTT\n\n1\n00:00:00.500 --> 00:00:01.500\nPhrase 1\n\n2\n00:00:02.000 --> 00:00:02.250\nPhrase 2\n'
+        );
+    });
+
+    it('repeats subtitle text as is and keeps it on one line in labels', async () => {
+        const phraseTexts = ['Bonjour\nà tous', 'Merci'];
+        expect(await timingFile(TimingFormat.SRT, { phraseTexts })).toContain('00:00:02,000 --> 00:00:03,000\nBonjour\nà tous\n');
+        expect(await timingFile(TimingFormat.AUDACITY, { phraseTexts })).toContain('2.000000\t3.000000\tBonjour à tous\n');
+    });
+
+    it('writes a cue sheet with escaped titles and CD frame times', async () => {
+        const lines = (await timingFile(TimingFormat.CUE, { timeline: 'original' })).split('\n');
+        expect(lines).toEqual([
+            `TITLE "lesson 'one'"`,
+            `FILE "lesson 'one'.mp3" MP3`,
+            '  TRACK 01 AUDIO',
+            '    TITLE "Phrase 1"',
+            '    INDEX 01 00:00:38',
+            '  TRACK 02 AUDIO',
+            '    TITLE "Phrase 2"',
+            '    INDEX 01 00:02:00',
+            '',
+        ]);
+    });
+
+    it('writes both timelines to JSON', async () => {
+        const json = JSON.parse(await timingFile(TimingFormat.JSON, { phraseTexts: ['Un', 'Deux'] }));
+        expect(json).toEqual({
+            audioFile: 'lesson "one".mp3',
+            phrases: [
+                { index: 1, text: 'Un', original: { start: 0.5, end: 1.5 }, paced: [{ start: 0, end: 1 }, { start: 2, end: 3 }] },
+                { index: 2, text: 'Deux', original: { start: 2, end: 2.25 }, paced: [{ start: 3661.001, end: 3661.251 }] },
+            ],
+        });
+    });
+});
+
+describe('timingFileExtensionFor', () => {
+    it('gives the extension of each format', () => {
+        expect(timingFileExtensionFor(TimingFormat.WEBVTT)).toBe('vtt');
+        expect(timingFileExtensionFor(TimingFormat.CUE)).toBe('cue');
+        expect(timingFileExtensionFor(TimingFormat.AUDACITY)).toBe('txt');
+    });
+});
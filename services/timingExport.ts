@@ -0,0 +1,137 @@
+import { OutputFormat, TimingFormat } from '../types';
+import { PhraseTiming } from './pacing';
+
+export type TimingTimeline = 'paced' | 'original';
+
+export const TIMING_FORMATS: { value: TimingFormat; label: string; extension: string; mimeType: string }[] = [
+    { value: TimingFormat.AUDACITY, label: 'Audacity labels', extension: 'txt', mimeType: 'text/plain' },
+    { value: TimingFormat.WEBVTT, label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+    { value: TimingFormat.SRT, label: 'SubRip (SRT)', extension: 'srt', mimeType: 'application/x-subrip' },
+    { value: TimingFormat.CUE, label: 'CUE sheet', extension: 'cue', mimeType: 'application/x-cue' },
+    { value: TimingFormat.JSON, label: 'JSON (both timelines)', extension: 'json', mimeType: 'application/json' },
+];
+
+interface TimingEntry {
+    start: number;
+    end: number;
+    label: string;
+}
+
+interface TimingFileOptions {
+    sampleRate: number;
+    timeline: TimingTimeline;
+    // Name of the audio file the timings refer to
+    audioFileName: string;
+    audioFormat: OutputFormat;
+    // Subtitle text of each phrase, used instead of numbered labels
+    phraseTexts?: string[];
+}
+
+// One entry per phrase on the original timeline, one per rendered repetition on the paced one
+function entriesFor(timings: PhraseTiming[], timeline: TimingTimeline, sampleRate: number, phraseTexts?: string[]): TimingEntry[] {
+    return timings.flatMap((timing, index) => {
+        const text = phraseTexts?.[index];
+        const name = text || `Phrase ${index + 1}`;
+        if (timeline === 'original') {
+            return [{ start: timing.original.start / sampleRate, end: timing.original.end / sampleRate, label: name }];
+        }
+        return timing.paced.map((range, repetition) => ({
+            start: range.start / sampleRate,
+            end: range.end / sampleRate,
+            // Subtitle text is repeated as is, like the audio
+            label: !text && timing.paced.length > 1 ? `${name} (${repetition + 1}/${timing.paced.length})` : name,
+        }));
+    });
+}
+
+// hh:mm:ss.mmm, with a comma before the milliseconds for SRT
+function formatTimestamp(seconds: number, decimalSeparator: string): string {
+    const totalMs = Math.round(seconds * 1000);
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor(totalMs / 60000) % 60;
+    const secs = Math.floor(totalMs / 1000) % 60;
+    const ms = totalMs % 1000;
+    const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${decimalSeparator}${pad(ms, 3)}`;
+}
+
+// mm:ss:ff with 75 frames per second, as in CD cue sheets
+function formatCueTime(seconds: number): string {
+    const totalFrames = Math.round(seconds * 75);
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${pad(Math.floor(totalFrames / 4500))}:${pad(Math.floor(totalFrames / 75) % 60)}:${pad(totalFrames % 75)}`;
+}
+
+// Multi-line subtitle text has to fit on one line in labels and cue sheets
+const singleLine = (text: string) => text.replace(/\s*\n\s*/g, ' ');
+
+function toAudacityLabels(entries: TimingEntry[]): string {
+    return entries.map(entry => `${entry.start.toFixed(6)}\t${entry.end.toFixed(6)}\t${singleLine(entry.label)}\n`).join('');
+}
+
+function toSubtitles(entries: TimingEntry[], separator: string): string {
+    return entries
+        .map((entry, index) => `${index + 1}\n${formatTimestamp(entry.start, separator)} --> ${formatTimestamp(entry.end, separator)}\n${entry.label}\n`)
+        .join('\n');
+}
+
+// The cue sheet format allows 99 tracks; most players accept more
+function toCueSheet(entries: TimingEntry[], audioFileName: string, audioFormat: OutputFormat): string {
+    const escape = (text: string) => singleLine(text).replace(/"/g, "'");
+    const fileType = audioFormat === OutputFormat.MP3 ? 'MP3' : 'WAVE';
+    const title = audioFileName.replace(/\.[^.]+$/, '');
+    const lines = [`TITLE "${escape(title)}"`, `FILE "${escape(audioFileName)}" ${fileType}`];
+    entries.forEach((entry, index) => {
+        lines.push(
+            `  TRACK ${(index + 1).toString().padStart(2, '0')} AUDIO`,
+            `    TITLE "${escape(entry.label)}"`,
+            `    INDEX 01 ${formatCueTime(entry.start)}`
+        );
+    });
+    return lines.join('\n') + '\n';
+}
+
+function toJson(timings: PhraseTiming[], sampleRate: number, audioFileName: string, phraseTexts?: string[]): string {
+    const seconds = (samples: number) => Math.round(samples / sampleRate * 1e6) / 1e6;
+    const range = (chunk: { start: number; end: number }) => ({ start: seconds(chunk.start), end: seconds(chunk.end) });
+    return JSON.stringify({
+        audioFile: audioFileName,
+        phrases: timings.map((timing, index) => ({
+            index: index + 1,
+            ...(phraseTexts ? { text: phraseTexts[index] } : {}),
+            original: range(timing.original),
+            paced: timing.paced.map(range),
+        })),
+    }, null, 2);
+}
+
+export function createTimingFile(format: TimingFormat, timings: PhraseTiming[], options: TimingFileOptions): Blob {
+    const { sampleRate, timeline, audioFileName, audioFormat, phraseTexts } = options;
+    const formatInfo = TIMING_FORMATS.find(info => info.value === format) ?? TIMING_FORMATS[0];
+    const entries = entriesFor(timings, timeline, sampleRate, phraseTexts);
+
+    let content: string;
+    switch (format) {
+        case TimingFormat.WEBVTT:
+            content = `WEBVTT\n\n${toSubtitles(entries, '.')}`;
+            break;
+        case TimingFormat.SRT:
+            content = toSubtitles(entries, ',');
+            break;
+        case TimingFormat.CUE:
+            content = toCueSheet(entries, audioFileName, audioFormat);
+            break;
+        case TimingFormat.JSON:
+            content = toJson(timings, sampleRate, audioFileName, phraseTexts);
+            break;
+        case TimingFormat.AUDACITY:
+        default:
+            content = toAudacityLabels(entries);
+            break;
+    }
+    return new Blob([content], { type: `${formatInfo.mimeType};charset=utf-8` });
+}
+
+export function timingFileExtensionFor(format: TimingFormat): string {
+    return TIMING_FORMATS.find(info => info.value === format)?.extension ?? 'txt';
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createWavEncoder } from './wavEncoder';
+
+async function encode(channels: Float32Array[], sampleRate: number, bitDepth: 16 | 24): Promise<DataView> {
+    const encoder = createWavEncoder(channels.length, sampleRate, bitDepth);
+    encoder.encode(channels);
+    return new DataView(await encoder.finish().arrayBuffer());
+}
+
+const textAt = (view: DataView, offset: number) =>
+    String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+
+describe('createWavEncoder', () => {
+    it('writes a PCM header describing the data', async () => {
+        const view = await encode([new Float32Array(3), new Float32Array(3)], 22050, 16);
+
+        expect(view.byteLength).toBe(44 + 3 * 2 * 2);
+        expect(textAt(view, 0)).toBe('RIFF');
+        expect(view.getUint32(4, true)).toBe(view.byteLength - 8);
+        expect(textAt(view, 8)).toBe('WAVE');
+        expect(view.getUint16(20, true)).toBe(1);
+        expect(view.getUint16(22, true)).toBe(2);
+        expect(view.getUint32(24, true)).toBe(22050);
+        expect(view.getUint32(28, true)).toBe(22050 * 4);
+        expect(view.getUint16(32, true)).toBe(4);
+        expect(view.getUint16(34, true)).toBe(16);
+        expect(textAt(view, 36)).toBe('data');
+        expect(view.getUint32(40, true)).toBe(12);
+    });
+
+    it('interleaves 16-bit samples and clips values outside -1 to 1', async () => {
+        const view = await encode([Float32Array.from([0.5, -2]), Float32Array.from([-0.5, 2])], 8000, 16);
+        const samples = Array.from({ length: 4 }, (_, i) => view.getInt16(44 + 2 * i, true));
+        expect(samples).toEqual([16384, -16383, -32767, 32767]);
+    });
+
+    it('writes 24-bit samples as three little-endian bytes', async () => {
+        const view = await encode([Float32Array.from([1, -1, 0.25])], 48000, 24);
+        const sample = (index: number) => {
+            const offset = 44 + 3 * index;
+            const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16);
+            return value >= 0x800000 ? value - 0x1000000 : value;
+        };
+
+        expect(view.getUint16(34, true)).toBe(24);
+        expect([sample(0), sample(1), sample(2)]).toEqual([8388607, -8388607, 2097152]);
+    });
+});
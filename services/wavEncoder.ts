@@ -0,0 +1,61 @@
+import { createBlobBuilder, StreamingEncoder } from './sampleStream';
+
+const HEADER_SIZE = 44;
+const MAX_DATA_SIZE = 0xFFFFFFFF - HEADER_SIZE + 8;
+
+function writeString(view: DataView, offset: number, text: string) {
+    for (let i = 0; i < text.length; i++) {
+        view.setUint8(offset + i, text.charCodeAt(i));
+    }
+}
+
+function createHeader(numberOfChannels: number, sampleRate: number, bitDepth: number, dataSize: number): Uint8Array {
+    const header = new Uint8Array(HEADER_SIZE);
+    const view = new DataView(header.buffer);
+    const blockAlign = numberOfChannels * bitDepth / 8;
+
+    writeString(view, 0, 'RIFF');
+    view.setUint32(4, HEADER_SIZE - 8 + dataSize, true);
+    writeString(view, 8, 'WAVE');
+    writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // Integer PCM
+    view.setUint16(22, numberOfChannels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitDepth, true);
+    writeString(view, 36, 'data');
+    view.setUint32(40, dataSize, true);
+    return header;
+}
+
+// Interleaved little-endian PCM. The header goes in front once the data size is known.
+export function createWavEncoder(numberOfChannels: number, sampleRate: number, bitDepth: 16 | 24): StreamingEncoder {
+    const output = createBlobBuilder('audio/wav');
+    const bytesPerSample = bitDepth / 8;
+    const maxValue = 2 ** (bitDepth - 1) - 1;
+
+    return {
+        encode(block: Float32Array[]) {
+            const length = block[0].length;
+            const bytes = new Uint8Array(length * numberOfChannels * bytesPerSample);
+            let offset = 0;
+            for (let i = 0; i < length; i++) {
+                for (let channel = 0; channel < numberOfChannels; channel++) {
+                    const value = Math.round(Math.max(-1, Math.min(1, block[channel][i])) * maxValue);
+                    bytes[offset++] = value & 0xFF;
+                    bytes[offset++] = (value >> 8) & 0xFF;
+                    if (bitDepth === 24) bytes[offset++] = (value >> 16) & 0xFF;
+                }
+            }
+            output.append(bytes);
+            if (output.size > MAX_DATA_SIZE) {
+                throw new Error('The audio is too long for a WAV file (4 GB limit). Choose FLAC or MP3 instead.');
+            }
+        },
+        finish() {
+            return output.finish(createHeader(numberOfChannels, sampleRate, bitDepth, output.size));
+        },
+    };
+}
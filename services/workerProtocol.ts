@@ -0,0 +1,82 @@
+import { FrameLevels, MergeClip, MergeTransition, OutputOptions, PhraseClipOptions, Settings, SpeechChunk } from '../types';
+import { MergeTarget } from './merging';
+import { DenoiseOptions } from './noiseReduction';
+
+// Messages exchanged between audioProcessor.ts and audioWorker.ts.
+// Each job gets its own worker, which is terminated to cancel it.
+
+export type WorkerStage = 'denoise' | 'detect' | 'measure' | 'render' | 'merge';
+
+// Describes decoded audio that stays on the main thread. The worker pulls the
+// sample ranges it needs with 'read' messages, so it never holds a whole file.
+export interface SourceInfo {
+    sampleRate: number;
+    length: number;
+    numberOfChannels: number;
+}
+
+export type WorkerRequest =
+    | {
+        type: 'pace';
+        source: SourceInfo;
+        // Reviewed chunks to render, or null to detect them in the worker
+        chunks: SpeechChunk[] | null;
+        settings: Settings;
+        output: OutputOptions;
+    }
+    | {
+        type: 'clips';
+        source: SourceInfo;
+        chunks: SpeechChunk[];
+        settings: Settings;
+        output: OutputOptions;
+        clips: PhraseClipOptions;
+    }
+    | {
+        type: 'merge';
+        sources: SourceInfo[];
+        clips: MergeClip[];
+        // One fewer than sources: what goes between each pair
+        transitions: MergeTransition[];
+        // Every source is converted to this rate and channel count before joining
+        target: MergeTarget;
+        output: OutputOptions;
+    }
+    | {
+        type: 'interleave';
+        // Recordings at one sample rate, in the order their phrases are played
+        sources: SourceInfo[];
+        // As many phrases for each source; phrase i of each forms a pair
+        chunks: SpeechChunk[][];
+        settings: Settings;
+        numberOfChannels: number;
+        output: OutputOptions;
+    }
+    | {
+        // Answered with the phrases found, rather than an encoded file
+        type: 'detect';
+        source: SourceInfo;
+        settings: Settings;
+    }
+    | {
+        // Answered with the frame levels of the noise-reduced audio, which are
+        // all that detection and calibration need while settings change
+        type: 'levels';
+        source: SourceInfo;
+        options: DenoiseOptions;
+    };
+
+// Answers a worker's 'read' message; the channel buffers are transferred
+export interface SourceData {
+    type: 'data';
+    requestId: number;
+    channels: Float32Array[];
+}
+
+export type WorkerResponse =
+    | { type: 'progress'; stage: WorkerStage; percent: number }
+    | { type: 'read'; requestId: number; source: number; start: number; end: number }
+    | { type: 'done'; blob: Blob }
+    | { type: 'detected'; chunks: SpeechChunk[] }
+    | { type: 'levels'; levels: FrameLevels }
+    | { type: 'error'; message: string };
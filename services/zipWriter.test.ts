@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZipWriter } from './zipWriter';
+
+interface ReadEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+// Reads a stored-only archive the way unzip tools do: from the central directory,
+// checking each local header against it
+function readZip(bytes: Uint8Array): ReadEntry[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const decoder = new TextDecoder();
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    const count = view.getUint16(end + 10, true);
+    const directoryOffset = view.getUint32(end + 16, true);
+    expect(directoryOffset + view.getUint32(end + 12, true)).toBe(end);
+
+    const entries: ReadEntry[] = [];
+    let position = directoryOffset;
+    for (let i = 0; i < count; i++) {
+        expect(view.getUint32(position, true)).toBe(0x02014b50);
+        expect(view.getUint16(position + 10, true)).toBe(0); // Stored
+        const crc = view.getUint32(position + 16, true);
+        const size = view.getUint32(position + 20, true);
+        const nameLength = view.getUint16(position + 28, true);
+        const offset = view.getUint32(position + 42, true);
+        const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+
+        expect(view.getUint32(offset, true)).toBe(0x04034b50);
+        expect(view.getUint32(offset + 14, true)).toBe(crc);
+        expect(decoder.decode(bytes.subarray(offset + 30, offset + 30 + nameLength))).toBe(name);
+        const data = bytes.subarray(offset + 30 + nameLength, offset + 30 + nameLength + size);
+        expect(crc32(data)).toBe(crc);
+
+        entries.push({ name, data });
+        position += 46 + nameLength;
+    }
+    return entries;
+}
+
+describe('crc32', () => {
+    it('matches the standard check values', () => {
+        expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xCBF43926);
+        expect(crc32(new Uint8Array(0))).toBe(0);
+    });
+});
+
+describe('createZipWriter', () => {
+    it('stores files and text under UTF-8 names', async () => {
+        const zip = createZipWriter();
+        const audio = Uint8Array.from({ length: 1000 }, (_, i) => i & 0xFF);
+        zip.addFile('phrase_001.mp3', audio);
+        zip.addFile('café.csv', 'file,phrase\n');
+        zip.addFile('empty.txt', '');
+
+        const entries = readZip(new Uint8Array(await zip.finish().arrayBuffer()));
+        expect(entries.map(entry => entry.name)).toEqual(['phrase_001.mp3', 'café.csv', 'empty.txt']);
+        expect(entries[0].data).toEqual(audio);
+        expect(new TextDecoder().decode(entries[1].data)).toBe('file,phrase\n');
+        expect(entries[2].data.length).toBe(0);
+    });
+
+    it('writes an empty archive as just the end record', async () => {
+        const blob = createZipWriter().finish();
+        expect(blob.type).toBe('application/zip');
+        expect(readZip(new Uint8Array(await blob.arrayBuffer()))).toEqual([]);
+    });
+
+    it('refuses more entries than the format can count', () => {
+        const zip = createZipWriter();
+        const empty = new Uint8Array(0);
+        for (let i = 0; i < 0xFFFF; i++) zip.addFile('a', empty);
+        expect(() => zip.addFile('a', empty)).toThrow('The ZIP archive would be too large');
+    });
+});
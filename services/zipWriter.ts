@@ -0,0 +1,105 @@
+// Builds ZIP archives without compression ("stored" entries). Audio is already
+// compressed or compresses poorly, so storing keeps this small and fast.
+
+const MAX_ZIP_SIZE = 0xFFFFFFFF;
+const MAX_ENTRIES = 0xFFFF;
+
+const CRC32_TABLE: Uint32Array = (() => {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let crc = i;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 1 ? (crc >>> 1) ^ 0xEDB88320 : crc >>> 1;
+        }
+        table[i] = crc >>> 0;
+    }
+    return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC32_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// MS-DOS date and time fields
+function dosDateTime(date: Date): { time: number; date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+interface ZipEntry {
+    name: Uint8Array;
+    crc: number;
+    size: number;
+    offset: number;
+}
+
+export function createZipWriter() {
+    const encoder = new TextEncoder();
+    const { time, date } = dosDateTime(new Date());
+    const parts: BlobPart[] = [];
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+
+    // Fields shared by the local header and the central directory record
+    const writeCommonFields = (view: DataView, at: number, entry: ZipEntry) => {
+        view.setUint16(at, 20, true); // Version needed to extract: 2.0
+        view.setUint16(at + 2, 0x0800, true); // File names are UTF-8
+        view.setUint16(at + 4, 0, true); // Stored
+        view.setUint16(at + 6, time, true);
+        view.setUint16(at + 8, date, true);
+        view.setUint32(at + 10, entry.crc, true);
+        view.setUint32(at + 14, entry.size, true);
+        view.setUint32(at + 18, entry.size, true);
+        view.setUint16(at + 22, entry.name.length, true);
+        view.setUint16(at + 24, 0, true); // Extra field length
+    };
+
+    return {
+        addFile(fileName: string, data: Uint8Array | string) {
+            const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+            const entry: ZipEntry = { name: encoder.encode(fileName), crc: crc32(bytes), size: bytes.length, offset };
+            if (entries.length >= MAX_ENTRIES || offset + 30 + entry.name.length + bytes.length > MAX_ZIP_SIZE) {
+                throw new Error('The ZIP archive would be too large (4 GB or 65,535 files at most).');
+            }
+
+            const header = new Uint8Array(30 + entry.name.length);
+            const view = new DataView(header.buffer);
+            view.setUint32(0, 0x04034b50, true);
+            writeCommonFields(view, 4, entry);
+            header.set(entry.name, 30);
+
+            parts.push(header, bytes);
+            entries.push(entry);
+            offset += header.length + bytes.length;
+        },
+        finish(): Blob {
+            const directorySize = entries.reduce((sum, entry) => sum + 46 + entry.name.length, 0);
+            const directory = new Uint8Array(directorySize + 22);
+            const view = new DataView(directory.buffer);
+            let position = 0;
+            for (const entry of entries) {
+                view.setUint32(position, 0x02014b50, true);
+                view.setUint16(position + 4, 20, true); // Version made by
+                writeCommonFields(view, position + 6, entry);
+                // Comment length, disk number and attributes stay zero
+                view.setUint32(position + 42, entry.offset, true);
+                directory.set(entry.name, position + 46);
+                position += 46 + entry.name.length;
+            }
+
+            view.setUint32(position, 0x06054b50, true);
+            view.setUint16(position + 8, entries.length, true);
+            view.setUint16(position + 10, entries.length, true);
+            view.setUint32(position + 12, directorySize, true);
+            view.setUint32(position + 16, offset, true);
+
+            return new Blob([...parts, directory], { type: 'application/zip' });
+        },
+    };
+}
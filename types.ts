@@ -1,18 +1,229 @@
 export enum ProcessingState {
     IDLE = 'idle',
     READY = 'ready',
+    REVIEW = 'review',
     PROCESSING = 'processing',
     DONE = 'done',
     ERROR = 'error',
 }
 
+export enum PauseMode {
+    MULTIPLIER = 'multiplier',
+    FIXED = 'fixed',
+    MULTIPLIER_PLUS_OFFSET = 'multiplier-plus-offset',
+    CLAMPED_MULTIPLIER = 'clamped-multiplier',
+    ORIGINAL_GAP_PLUS = 'original-gap-plus',
+}
+
+// Which length of a stretched phrase its pause is computed from
+export enum PauseBasis {
+    ORIGINAL = 'original',
+    STRETCHED = 'stretched',
+}
+
 export interface Settings {
     silenceThreshold: number;
     minSilenceDuration: number;
     pauseMultiplier: number;
+    pauseMode: PauseMode;
+    // Fixed pause length, constant offset or extra time added to the original gap, depending on pauseMode
+    pauseSeconds: number;
+    minPauseSeconds: number;
+    maxPauseSeconds: number;
+    // How many times each phrase is played, each followed by its own pause
+    repeatCount: number;
+    // Playback rate of an extra final repetition; 1 disables it
+    finalRepeatRate: number;
+    // Speed of the regular repetitions, changed without changing pitch; 1 keeps it
+    tempo: number;
+    pauseBasis: PauseBasis;
+    // Audio kept before and after each detected phrase
+    preRollMs: number;
+    postRollMs: number;
+    fadeInMs: number;
+    fadeOutMs: number;
+    hysteresisDb: number;
+    minSpeechDuration: number;
+    // Seconds; shorter phrases are merged into a neighbour, longer ones split. 0 turns a limit off.
+    minChunkDuration: number;
+    maxChunkDuration: number;
+    // dB the background noise is turned down by before detection; 0 is off
+    noiseReduction: number;
+    // Also reduce the noise in the rendered output
+    denoiseOutput: boolean;
+    // Silence what's left of the noise between words in the output
+    noiseGate: boolean;
+}
+
+export enum OutputFormat {
+    MP3 = 'mp3',
+    WAV = 'wav',
+    FLAC = 'flac',
+}
+
+export interface OutputOptions {
+    format: OutputFormat;
+    // Sample size of the lossless formats
+    bitDepth: 16 | 24;
+    // Constant bitrate of MP3 output in kbps
+    mp3Bitrate: number;
+    // Averages all channels into one
+    mono: boolean;
+    // Sample rate of the output, or null to keep the source's
+    sampleRate: number | null;
+    // Integrated loudness to normalize to in LUFS, or null to leave levels as they are
+    loudnessTarget: number | null;
+}
+
+export interface MergeResult {
+    blob: Blob;
+    // One line per input that had to be converted, e.g. "a.mp3: 44.1 kHz → 48 kHz"
+    conversions: string[];
+}
+
+// Exporting every phrase as its own file
+export interface PhraseClipOptions {
+    // Silence added before and after each phrase
+    paddingMs: number;
+    // Clip files are named <baseName>_001.<extension> and so on
+    baseName: string;
+    // Subtitle or transcript text per phrase, listed in the index
+    texts: string[] | null;
+    // Adds a note file for importing the clips into Anki as flashcards
+    ankiDeck: boolean;
+}
+
+export enum BatchItemStatus {
+    PENDING = 'pending',
+    PROCESSING = 'processing',
+    DONE = 'done',
+    ERROR = 'error',
+}
+
+export interface BatchItem {
+    id: number;
+    file: File;
+    // Settings for this file only; null uses the shared settings
+    settingsOverride: Settings | null;
+    status: BatchItemStatus;
+    error: string | null;
+    result: Blob | null;
+    resultFileName: string | null;
+}
+
+// How one merged file leads into the next
+export enum MergeTransitionType {
+    GAP = 'gap',
+    CROSSFADE = 'crossfade',
+}
+
+export interface MergeTransition {
+    type: MergeTransitionType;
+    // Seconds of silence, or of overlap for a crossfade
+    duration: number;
+}
+
+// Per-file adjustments applied while merging
+export interface MergeClip {
+    // Seconds cut from the start and the end of the file
+    trimStart: number;
+    trimEnd: number;
+    // Volume change in decibels, on top of any loudness normalization
+    gainDb: number;
+    // Whether the file is brought to the output's loudness target on its own
+    normalize: boolean;
+}
+
+export interface MergeItem {
+    id: number;
+    file: File;
+    clip: MergeClip;
+}
+
+export enum TimingFormat {
+    AUDACITY = 'audacity',
+    WEBVTT = 'webvtt',
+    SRT = 'srt',
+    CUE = 'cue',
+    JSON = 'json',
+}
+
+export enum SubtitleTimingMode {
+    // Cue times are used as the phrases directly
+    EXACT = 'exact',
+    // Cue edges are moved to the nearest detected speech boundaries
+    REFINE = 'refine',
+}
+
+// Which recording's phrase comes first in each pair of a bilingual interleave
+export enum InterleaveOrder {
+    L1_FIRST = 'l1-first',
+    L2_FIRST = 'l2-first',
+}
+
+// Two recordings of the same text, decoded at one sample rate, with the phrases found in each
+export interface RecordingPair {
+    buffers: [AudioBuffer, AudioBuffer];
+    chunks: [SpeechChunk[], SpeechChunk[]];
+}
+
+// Times are in seconds
+export interface SubtitleCue {
+    start: number;
+    end: number;
+    text: string;
+}
+
+export interface Preset {
+    name: string;
+    settings: Settings;
 }
 
 export interface SpeechChunk {
     start: number;
     end: number;
+}
+
+export interface CalibrationResult {
+    noiseFloorDb: number;
+    speechLevelDb: number;
+    silenceThreshold: number;
+    minSilenceDuration: number;
+    expectedPhraseCount: number;
+}
+
+// The part of AudioBuffer the processing code relies on. Processing runs in a
+// worker, where AudioBuffer can't be constructed, so it works on this instead.
+export interface PcmAudio {
+    readonly sampleRate: number;
+    readonly length: number;
+    readonly numberOfChannels: number;
+    getChannelData(channel: number): Float32Array;
+}
+
+// Decoded audio that is read a range at a time, e.g. by the worker from the main thread
+export interface AudioSource {
+    readonly sampleRate: number;
+    readonly length: number;
+    readonly numberOfChannels: number;
+    read(start: number, end: number): Promise<Float32Array[]>;
+}
+
+// RMS level of each short frame of a recording in dBFS, averaged over its
+// channels. Speech detection and calibration only need these, not the samples.
+export interface FrameLevels {
+    sampleRate: number;
+    // Samples per frame
+    frameSize: number;
+    levels: Float32Array;
+    // Length of the measured audio in samples
+    length: number;
+}
+
+export interface ProgressUpdate {
+    step: number;
+    totalSteps: number;
+    message: string;
+    // Completion of the current step, 0-100
+    percent: number;
 }
\ No newline at end of file